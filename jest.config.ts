@@ -1,15 +1,15 @@
 /* eslint-disable */
 export default {
-	displayName: "time-utils",
-	preset: "../../jest.preset.js",
-	globals: {
-		"ts-jest": {
-			tsconfig: "<rootDir>/tsconfig.spec.json",
-		},
-	},
+	displayName: "super-timer",
+	testEnvironment: "node",
+	roots: ["<rootDir>/lib"],
 	transform: {
-		"^.+\\.[tj]sx?$": "ts-jest",
+		"^.+\\.[tj]sx?$": ["ts-jest", { tsconfig: "<rootDir>/tsconfig.spec.json" }],
+	},
+	// The sources import each other with the .js extensions of the ESM build
+	moduleNameMapper: {
+		"^(\\.{1,2}/.*)\\.js$": "$1",
 	},
 	moduleFileExtensions: ["ts", "tsx", "js", "jsx"],
-	coverageDirectory: "../../coverage/packages/time-utils",
+	coverageDirectory: "coverage",
 };
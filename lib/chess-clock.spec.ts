@@ -0,0 +1,110 @@
+import { ChessClock, ChessClockIncrement } from "./chess-clock";
+import { VirtualClock } from "./super-timer";
+
+describe("ChessClock", () => {
+	it("needs at least two players", () => {
+		expect(() => new ChessClock([{ name: "solo", timeMs: 1000 }])).toThrow(
+			"A chess clock needs at least two players.",
+		);
+	});
+});
+
+describe("ChessClock turns", () => {
+	let clock: VirtualClock;
+	let chessClock: ChessClock;
+
+	function createChessClock(increment?: ChessClockIncrement) {
+		chessClock = new ChessClock(
+			[
+				{ name: "white", timeMs: 60000 },
+				{ name: "black", timeMs: 60000 },
+			],
+			{ increment, timerOptions: { shims: clock } },
+		);
+		return chessClock;
+	}
+
+	function getTimes() {
+		return chessClock.getPlayers().map(p => p.timeRemaining);
+	}
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	afterEach(() => {
+		chessClock.dispose();
+	});
+
+	it("runs one player's clock at a time", () => {
+		createChessClock();
+		chessClock.start();
+		clock.advanceBy(5000);
+		chessClock.switchTurn();
+		clock.advanceBy(3000);
+		expect(getTimes()).toEqual([55000, 57000]);
+		expect(chessClock.getActivePlayer()).toMatchObject({ name: "black", isActive: true });
+		expect(chessClock.getPlayers()[0].moveCount).toBe(1);
+	});
+
+	it("starts the given player", () => {
+		createChessClock();
+		chessClock.start("black");
+		clock.advanceBy(1000);
+		expect(getTimes()).toEqual([60000, 59000]);
+		expect(() => chessClock.getCountdown("red")).toThrow("Chess clock has no player red.");
+	});
+
+	it("adds a Fischer increment after each move", () => {
+		createChessClock({ mode: "fischer", ms: 2000 });
+		chessClock.start();
+		clock.advanceBy(5000);
+		chessClock.switchTurn();
+		expect(getTimes()).toEqual([57000, 60000]);
+	});
+
+	it("gives back the time used, up to a Bronstein increment", () => {
+		createChessClock({ mode: "bronstein", ms: 2000 });
+		chessClock.start();
+		clock.advanceBy(1500);
+		chessClock.switchTurn();
+		clock.advanceBy(5000);
+		chessClock.switchTurn();
+		expect(getTimes()).toEqual([60000, 57000]);
+	});
+
+	it("holds the clock for the delay at the start of each turn", () => {
+		createChessClock({ mode: "delay", ms: 3000 });
+		chessClock.start();
+		clock.advanceBy(3000);
+		expect(getTimes()).toEqual([60000, 60000]);
+		clock.advanceBy(2000);
+		chessClock.switchTurn();
+		clock.advanceBy(1000);
+		expect(getTimes()).toEqual([58000, 60000]);
+	});
+
+	it("pauses and resumes the delay and the active clock", () => {
+		createChessClock({ mode: "delay", ms: 3000 });
+		chessClock.start();
+		clock.advanceBy(2000);
+		chessClock.pause();
+		clock.advanceBy(10000);
+		chessClock.resume();
+		clock.advanceBy(2000);
+		expect(getTimes()).toEqual([59000, 60000]);
+	});
+
+	it("calls flag fall callbacks and stops switching turns", () => {
+		createChessClock();
+		const onFlagFall = jest.fn();
+		chessClock.onFlagFall(onFlagFall);
+		chessClock.start();
+		clock.advanceBy(60000);
+		expect(onFlagFall).toHaveBeenCalledWith(
+			expect.objectContaining({ name: "white", isFlagged: true }),
+			chessClock,
+		);
+		expect(chessClock.switchTurn()).toBe(false);
+	});
+});
@@ -0,0 +1,265 @@
+import { SuperCountdown, SuperCountdownOptions, TimerGroup } from "./super-timer.js";
+
+/**
+ * How time is added to a player's clock for each move.
+ *
+ * "fischer" - `ms` is added to the player's clock after each move.
+ * "bronstein" - After each move, the time the player used is added back,
+ * up to `ms`.
+ * "delay" - The player's clock does not start running until `ms` has
+ * passed at the start of each turn. Also known as simple or US delay.
+ */
+export interface ChessClockIncrement {
+	mode: "fischer" | "bronstein" | "delay";
+	ms: number;
+}
+
+export interface ChessClockPlayer {
+	/**
+	 * The name of the player. Must be unique, and is used as the name
+	 * of the player's countdown.
+	 */
+	name: string;
+
+	/**
+	 * The starting time on the player's clock.
+	 */
+	timeMs: number;
+}
+
+export interface ChessClockPlayerState {
+	name: string;
+	index: number;
+	timeRemaining: number;
+	moveCount: number;
+	isActive: boolean;
+	isFlagged: boolean;
+}
+
+export interface ChessClockOptions {
+	/**
+	 * Time added to each player's clock per move.
+	 *
+	 * @default undefined (no increment)
+	 */
+	increment?: ChessClockIncrement;
+
+	/**
+	 * Callback to execute when a player runs out of time.
+	 */
+	onFlagFall?: ChessClockFlagFallCallback;
+
+	/**
+	 * Options for each player's countdown, e.g. shims or a speed multiplier.
+	 */
+	timerOptions?: Omit<SuperCountdownOptions, "name" | "callbacks" | "overtime">;
+}
+
+/**
+ * A callback that runs when a player runs out of time.
+ *
+ * @param player The player whose time ran out
+ * @param clock The chess clock
+ */
+export type ChessClockFlagFallCallback = (player: ChessClockPlayerState, clock: ChessClock) => void;
+
+/**
+ * A clock for turn-based games where exactly one player's countdown runs
+ * at a time. Each player has their own SuperCountdown.
+ */
+export class ChessClock {
+	private countdowns: SuperCountdown[];
+	private group: TimerGroup<SuperCountdown>;
+	private moveCounts: number[];
+	private increment: ChessClockIncrement | undefined;
+	private timerOptions: ChessClockOptions["timerOptions"];
+	private activeIndex: number | undefined;
+	private turnStartRemaining: number = 0;
+	private delayCountdown: SuperCountdown | undefined;
+	private flaggedIndex: number | undefined;
+	private flagFallCallbacks: Set<ChessClockFlagFallCallback> = new Set();
+
+	constructor(players: ChessClockPlayer[], options: ChessClockOptions = {}) {
+		if (players.length < 2) {
+			throw new Error("A chess clock needs at least two players.");
+		}
+		this.increment = options.increment;
+		this.timerOptions = options.timerOptions;
+		this.moveCounts = players.map(() => 0);
+		this.countdowns = players.map(
+			(player, index) =>
+				new SuperCountdown(player.timeMs, () => this.flagFall(index), {
+					...options.timerOptions,
+					name: player.name,
+				}),
+		);
+		this.group = new TimerGroup(this.countdowns);
+		if (options.onFlagFall) {
+			this.flagFallCallbacks.add(options.onFlagFall);
+		}
+	}
+
+	/**
+	 * Start the clock of the given player, or of the first player if none
+	 * is given. No-op if a player's clock is already active.
+	 * @param player The index or name of the player
+	 */
+	public start(player: number | string = 0) {
+		if (this.activeIndex !== undefined || this.flaggedIndex !== undefined) {
+			return;
+		}
+		this.startTurn(this.getIndex(player));
+	}
+
+	/**
+	 * End the active player's turn and start the next player's turn. The
+	 * active player's move is counted and any increment is applied. If no
+	 * player is active, the first player's clock is started.
+	 * @returns False if a player has already run out of time
+	 */
+	public switchTurn(): boolean {
+		if (this.flaggedIndex !== undefined) {
+			return false;
+		}
+		if (this.activeIndex === undefined) {
+			this.startTurn(0);
+			return true;
+		}
+
+		const index = this.activeIndex;
+		const countdown = this.countdowns[index];
+		this.cancelDelay();
+		countdown.pause();
+		this.moveCounts[index]++;
+
+		// Increments are part of the game, so an arbiter's undo skips over them
+		const increment = this.increment;
+		if (increment?.mode === "fischer") {
+			countdown.withoutUndo(() => countdown.addTime(increment.ms));
+		} else if (increment?.mode === "bronstein") {
+			const usedMs = Math.max(0, this.turnStartRemaining - countdown.getTimeRemaining());
+			countdown.withoutUndo(() => countdown.addTime(Math.min(usedMs, increment.ms)));
+		}
+
+		this.startTurn((index + 1) % this.countdowns.length);
+		return true;
+	}
+
+	/**
+	 * Pause the active player's clock without ending their turn.
+	 */
+	public pause() {
+		this.delayCountdown?.pause();
+		this.group.pauseAll();
+	}
+
+	/**
+	 * Resume the active player's clock after a pause.
+	 */
+	public resume() {
+		if (this.activeIndex === undefined || this.flaggedIndex !== undefined) {
+			return;
+		}
+		if (this.delayCountdown && !this.delayCountdown.isDone()) {
+			this.delayCountdown.unpause();
+		} else {
+			this.countdowns[this.activeIndex].unpause();
+		}
+	}
+
+	public setSpeedMultiplier(speedMultiplier: number) {
+		this.delayCountdown?.setSpeedMultiplier(speedMultiplier);
+		this.group.setSpeedMultiplier(speedMultiplier);
+		this.timerOptions = { ...this.timerOptions, timerSpeedMultiplier: speedMultiplier };
+	}
+
+	/**
+	 * Register a callback to execute when a player runs out of time.
+	 * @param callback
+	 * @returns A function that removes the callback
+	 */
+	public onFlagFall(callback: ChessClockFlagFallCallback): () => void {
+		this.flagFallCallbacks.add(callback);
+		return () => {
+			this.flagFallCallbacks.delete(callback);
+		};
+	}
+
+	/**
+	 * Gets the player whose turn it is, if the clock has started.
+	 */
+	public getActivePlayer(): ChessClockPlayerState | undefined {
+		return this.activeIndex === undefined ? undefined : this.getPlayerState(this.activeIndex);
+	}
+
+	public getPlayers(): ChessClockPlayerState[] {
+		return this.countdowns.map((_, index) => this.getPlayerState(index));
+	}
+
+	/**
+	 * Gets the countdown of the given player.
+	 * @param player The index or name of the player
+	 */
+	public getCountdown(player: number | string): SuperCountdown {
+		return this.countdowns[this.getIndex(player)];
+	}
+
+	/**
+	 * Cancels all outstanding timeouts/intervals. The clock cannot be
+	 * reused after disposal.
+	 */
+	public dispose() {
+		this.cancelDelay();
+		this.group.disposeAll();
+	}
+
+	private getIndex(player: number | string) {
+		const index = typeof player === "number" ? player : this.countdowns.findIndex(c => c.getName() === player);
+		if (index < 0 || index >= this.countdowns.length) {
+			throw new Error(`Chess clock has no player ${player}.`);
+		}
+		return index;
+	}
+
+	private getPlayerState(index: number): ChessClockPlayerState {
+		const countdown = this.countdowns[index];
+		return {
+			name: countdown.getName(),
+			index,
+			timeRemaining: countdown.getTimeRemaining(),
+			moveCount: this.moveCounts[index],
+			isActive: index === this.activeIndex,
+			isFlagged: index === this.flaggedIndex,
+		};
+	}
+
+	private startTurn(index: number) {
+		const countdown = this.countdowns[index];
+		this.activeIndex = index;
+		this.turnStartRemaining = countdown.getTimeRemaining();
+		if (this.increment?.mode === "delay" && this.increment.ms > 0) {
+			// The delay is a countdown of its own, so that it honors pauses and the speed multiplier.
+			this.delayCountdown = new SuperCountdown(this.increment.ms, () => countdown.unpause(), {
+				...this.timerOptions,
+				name: `${countdown.getName()}-delay`,
+			});
+			this.delayCountdown.start();
+		} else {
+			countdown.unpause();
+		}
+	}
+
+	private cancelDelay() {
+		this.delayCountdown?.dispose();
+		this.delayCountdown = undefined;
+	}
+
+	private flagFall(index: number) {
+		this.flaggedIndex = index;
+		this.cancelDelay();
+		const player = this.getPlayerState(index);
+		for (const callback of [...this.flagFallCallbacks]) {
+			callback(player, this);
+		}
+	}
+}
@@ -0,0 +1,126 @@
+import {
+	activeSegmentsToCsv,
+	getActiveSegments,
+	historyFromJson,
+	historyToCsv,
+	historyToJsonLines,
+} from "./history-export";
+import { SuperTimer, TimerEvent, VirtualClock } from "./super-timer";
+
+describe("history export", () => {
+	let clock: VirtualClock;
+	let history: TimerEvent[];
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date("2024-01-01T09:00:00Z") });
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(60000);
+		timer.addTime(30000);
+		clock.advanceBy(60000);
+		timer.pause();
+		clock.advanceBy(60000);
+		timer.setSpeedMultiplier(2);
+		timer.unpause();
+		clock.advanceBy(60000);
+		history = timer.getHistory();
+		timer.dispose();
+	});
+
+	describe("historyToCsv", () => {
+		it("writes one row per event with a column per data field", () => {
+			const rows = historyToCsv(history).split("\r\n");
+			expect(rows[0]).toBe("date,event,elapsedMs,deltaMs,fromMs,toMs,fromSpeed,toSpeed");
+			expect(rows[1]).toBe("2024-01-01T09:00:00.000Z,unpause,0,,,,,");
+			expect(rows).toContain("2024-01-01T09:01:00.000Z,addTime,60000,30000,60000,90000,,");
+			expect(rows).toHaveLength(history.length + 1);
+		});
+
+		it("uses the given columns and delimiter, quoting where needed", () => {
+			const events: TimerEvent[] = [
+				{
+					date: new Date(0),
+					event: "lap",
+					elapsedMs: 1000,
+					data: { lapNumber: 1, durationMs: 1000, label: 'first; "fast"' },
+				},
+			];
+			expect(historyToCsv(events, { delimiter: ";", dataColumns: ["label"] })).toBe(
+				'date;event;elapsedMs;label\r\n1970-01-01T00:00:00.000Z;lap;1000;"first; ""fast"""',
+			);
+		});
+	});
+
+	describe("historyFromJson", () => {
+		it("reads JSON Lines back", () => {
+			const lines = historyToJsonLines(history);
+			expect(lines.split("\n")).toHaveLength(history.length);
+			expect(historyFromJson(lines).events).toEqual(history);
+		});
+
+		it("reads a history object or a list of events, however it is formatted", () => {
+			expect(historyFromJson(JSON.stringify({ events: history }, null, 2)).events).toEqual(history);
+			expect(historyFromJson(JSON.stringify(history)).events).toEqual(history);
+			const reordered = history.map(({ date, ...rest }) => ({ ...rest, date }));
+			expect(historyFromJson(`\n${JSON.stringify({ events: reordered })}\n`).events).toEqual(history);
+		});
+
+		it("reads a single JSON Lines event and empty input", () => {
+			expect(historyFromJson(historyToJsonLines(history.slice(0, 1))).events).toEqual(history.slice(0, 1));
+			expect(historyFromJson("  \n").events).toEqual([]);
+		});
+
+		it("reports the line or event that is invalid", () => {
+			const lines = historyToJsonLines(history).split("\n");
+			lines[1] = "{not json";
+			expect(() => historyFromJson(lines.join("\n"))).toThrow("Invalid timer history on line 2:");
+			expect(() => historyFromJson('[{"event":"pause"}]')).toThrow(
+				"Invalid timer history: event 1 needs a date, event and elapsedMs.",
+			);
+			expect(() => historyFromJson('{"events":{}}')).toThrow("Invalid timer history: expected a list of events.");
+		});
+
+		it("upgrades events from earlier versions", () => {
+			const legacy = JSON.stringify({
+				date: "2024-01-01T00:00:00.000Z",
+				event: "reset",
+				elapsedMs: 0,
+				data: 500,
+			});
+			expect(historyFromJson(legacy).events[0].data).toEqual({ previousElapsedMs: 500 });
+		});
+	});
+
+	describe("getActiveSegments", () => {
+		it("splits segments on pauses and speed changes but not on adjustments", () => {
+			const segments = getActiveSegments(history, { until: new Date("2024-01-01T09:04:00Z") });
+			expect(segments.map(s => [s.start.toISOString(), s.end?.toISOString(), s.durationMs, s.speed])).toEqual([
+				["2024-01-01T09:00:00.000Z", "2024-01-01T09:02:00.000Z", 120000, 1],
+				["2024-01-01T09:03:00.000Z", undefined, 60000, 2],
+			]);
+			expect(segments.map(s => [s.startElapsedMs, s.endElapsedMs])).toEqual([
+				[0, 150000],
+				[150000, 270000],
+			]);
+		});
+
+		it("writes segments as CSV", () => {
+			const segments = getActiveSegments(history, { until: new Date("2024-01-01T09:04:00Z") });
+			expect(activeSegmentsToCsv(segments, { delimiter: "\t" }).split("\r\n")).toEqual([
+				"start\tend\tdurationMs\tstartElapsedMs\tendElapsedMs\tspeed",
+				"2024-01-01T09:00:00.000Z\t2024-01-01T09:02:00.000Z\t120000\t0\t150000\t1",
+				"2024-01-01T09:03:00.000Z\t\t60000\t150000\t270000\t2",
+			]);
+		});
+
+		it("ends a segment on reset", () => {
+			const timer = new SuperTimer({ shims: clock });
+			timer.start();
+			clock.advanceBy(1000);
+			timer.reset();
+			const [segment] = getActiveSegments(timer.getHistory());
+			expect(segment).toMatchObject({ durationMs: 1000, startElapsedMs: 0, endElapsedMs: 1000 });
+			timer.dispose();
+		});
+	});
+});
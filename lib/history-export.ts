@@ -0,0 +1,261 @@
+import { TimerEvent, TimerEventSnapshot, TimerHistory, upgradeTimerEvents } from "./super-timer.js";
+
+/**
+ * A stretch of time during which a timer was running.
+ */
+export interface ActiveSegment {
+	/**
+	 * The wall-clock time at which the timer was unpaused.
+	 */
+	start: Date;
+
+	/**
+	 * The wall-clock time at which the timer was paused or reset. Undefined
+	 * if the timer was still running at the end of the history.
+	 */
+	end: Date | undefined;
+
+	/**
+	 * The wall-clock duration of the segment.
+	 */
+	durationMs: number;
+
+	/**
+	 * The elapsed time of the timer at the start and end of the segment.
+	 */
+	startElapsedMs: number;
+	endElapsedMs: number;
+
+	/**
+	 * The speed multiplier of the timer during the segment.
+	 */
+	speed: number;
+}
+
+export interface ActiveSegmentOptions {
+	/**
+	 * The end of a segment that was still running at the end of the history.
+	 *
+	 * @default The current time
+	 */
+	until?: Date;
+}
+
+export interface HistoryCsvOptions {
+	/**
+	 * @default ","
+	 */
+	delimiter?: string;
+
+	/**
+	 * The event data fields to include as columns, after the date, event
+	 * and elapsedMs columns.
+	 *
+	 * @default Every field that occurs in the history, in order of appearance
+	 */
+	dataColumns?: string[];
+}
+
+type HistoryInput = TimerHistory | TimerEvent[];
+
+function getEvents(history: HistoryInput): TimerEvent[] {
+	return Array.isArray(history) ? history : history.events;
+}
+
+function toSnapshot(event: TimerEvent): TimerEventSnapshot {
+	return { ...event, date: event.date.toISOString() } as TimerEventSnapshot;
+}
+
+function escapeCsvField(value: unknown, delimiter: string) {
+	const text = value === undefined || value === null ? "" : String(value);
+	if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+		return `"${text.replace(/"/g, '""')}"`;
+	}
+	return text;
+}
+
+function toCsv(header: string[], rows: unknown[][], delimiter: string) {
+	return [header, ...rows]
+		.map(row => row.map(value => escapeCsvField(value, delimiter)).join(delimiter))
+		.join("\r\n");
+}
+
+/**
+ * Convert a timer history to CSV, one row per event. Each field of the
+ * event data gets its own column.
+ * @param history A timer history or a list of events, e.g. from `getHistory`
+ * @param options
+ */
+export function historyToCsv(history: HistoryInput, options: HistoryCsvOptions = {}): string {
+	const events = getEvents(history);
+	const delimiter = options.delimiter ?? ",";
+	const dataColumns = options.dataColumns ?? [...new Set(events.flatMap(event => Object.keys(event.data ?? {})))];
+	const rows = events.map(event => {
+		const data = (event.data ?? {}) as Record<string, unknown>;
+		return [event.date.toISOString(), event.event, event.elapsedMs, ...dataColumns.map(column => data[column])];
+	});
+	return toCsv(["date", "event", "elapsedMs", ...dataColumns], rows, delimiter);
+}
+
+/**
+ * Convert a timer history to JSON Lines, one JSON event per line. Dates
+ * are stored as ISO strings. Read it back with `historyFromJson`.
+ * @param history A timer history or a list of events, e.g. from `getHistory`
+ */
+export function historyToJsonLines(history: HistoryInput): string {
+	return getEvents(history)
+		.map(event => JSON.stringify(toSnapshot(event)))
+		.join("\n");
+}
+
+/**
+ * Read a timer history exported with `historyToJsonLines`, or serialized
+ * with `JSON.stringify` as a history object or a list of events.
+ * @param json
+ */
+export function historyFromJson(json: string): TimerHistory {
+	const trimmed = json.trim();
+	let values: unknown;
+	if (trimmed === "") {
+		values = [];
+	} else {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(trimmed);
+		} catch {
+			// Not a single JSON value, so JSON Lines with more than one event
+			parsed = undefined;
+		}
+		if (parsed === undefined) {
+			values = trimmed.split(/\r?\n/).map((line, index) => {
+				try {
+					return JSON.parse(line);
+				} catch (e) {
+					throw new Error(`Invalid timer history on line ${index + 1}: ${(e as Error).message}`);
+				}
+			});
+		} else if (Array.isArray(parsed)) {
+			values = parsed;
+		} else if (parsed && typeof parsed === "object" && "events" in parsed) {
+			values = (parsed as { events: unknown }).events;
+		} else {
+			// JSON Lines with a single event
+			values = [parsed];
+		}
+	}
+	if (!Array.isArray(values)) {
+		throw new Error("Invalid timer history: expected a list of events.");
+	}
+	return {
+		events: upgradeTimerEvents(
+			values.map((value, index) => {
+				const event = value as Partial<TimerEventSnapshot>;
+				const date = new Date(event?.date as string);
+				if (typeof event?.event !== "string" || typeof event.elapsedMs !== "number" || isNaN(date.getTime())) {
+					throw new Error(`Invalid timer history: event ${index + 1} needs a date, event and elapsedMs.`);
+				}
+				return { ...event, date } as TimerEvent;
+			}),
+		),
+	};
+}
+
+/**
+ * Compute the stretches of time during which the timer was running, e.g.
+ * for a timesheet. Segments are split by pauses, resets and speed changes.
+ * A time adjustment made while running does not split a segment, but is
+ * reflected in its elapsed times.
+ * @param history A timer history or a list of events, e.g. from `getHistory`
+ * @param options
+ */
+export function getActiveSegments(history: HistoryInput, options: ActiveSegmentOptions = {}): ActiveSegment[] {
+	const events = getEvents(history);
+	const segments: ActiveSegment[] = [];
+	const firstSpeedChange = events.find(event => event.event === "setSpeed");
+	let speed = firstSpeedChange?.event === "setSpeed" ? firstSpeedChange.data.fromSpeed : 1;
+	let current: ActiveSegment | undefined;
+	let lastPause: TimerEvent | undefined;
+	// The latest known elapsed time of the running timer
+	let mark = { date: new Date(0), elapsedMs: 0 };
+
+	for (const event of events) {
+		switch (event.event) {
+			case "unpause":
+			case "start": {
+				if (current) {
+					break;
+				}
+				const previous = segments[segments.length - 1];
+				// Adjustments and speed changes pause and unpause the timer at the
+				// same instant. Those pauses don't end the segment unless the speed
+				// changed, and a segment that had no time to run takes the new speed.
+				const isSameInstant = lastPause?.date.getTime() === event.date.getTime();
+				if (isSameInstant && previous && (previous.speed === speed || previous.durationMs === 0)) {
+					previous.end = undefined;
+					previous.speed = speed;
+					current = previous;
+				} else {
+					current = {
+						start: event.date,
+						end: undefined,
+						durationMs: 0,
+						startElapsedMs: event.elapsedMs,
+						endElapsedMs: event.elapsedMs,
+						speed,
+					};
+					segments.push(current);
+				}
+				mark = { date: event.date, elapsedMs: event.elapsedMs };
+				break;
+			}
+
+			case "pause":
+			case "reset":
+				if (current) {
+					current.end = event.date;
+					current.durationMs = event.date.getTime() - current.start.getTime();
+					current.endElapsedMs = event.event === "pause" ? event.elapsedMs : event.data.previousElapsedMs;
+					current = undefined;
+				}
+				lastPause = event.event === "pause" ? event : undefined;
+				break;
+
+			case "setSpeed":
+				speed = event.data.toSpeed;
+				break;
+
+			case "setTime":
+			case "addTime":
+				mark = { date: event.date, elapsedMs: event.data.toMs };
+				break;
+		}
+	}
+
+	if (current) {
+		const until = options.until ?? new Date();
+		current.durationMs = until.getTime() - current.start.getTime();
+		current.endElapsedMs = mark.elapsedMs + (until.getTime() - mark.date.getTime()) * current.speed;
+	}
+	return segments;
+}
+
+/**
+ * Convert active segments to CSV, one row per segment.
+ * @param segments Segments from `getActiveSegments`
+ * @param options
+ */
+export function activeSegmentsToCsv(segments: ActiveSegment[], options: Pick<HistoryCsvOptions, "delimiter"> = {}) {
+	const rows = segments.map(segment => [
+		segment.start.toISOString(),
+		segment.end?.toISOString(),
+		segment.durationMs,
+		segment.startElapsedMs,
+		segment.endElapsedMs,
+		segment.speed,
+	]);
+	return toCsv(
+		["start", "end", "durationMs", "startElapsedMs", "endElapsedMs", "speed"],
+		rows,
+		options.delimiter ?? ",",
+	);
+}
@@ -0,0 +1,103 @@
+import { LoopbackNetwork, NetworkSyncClient, NetworkSyncHost } from "./network-sync";
+import { SuperTimer, TimerShims, VirtualClock } from "./super-timer";
+
+/**
+ * Shims for a device whose wall clock is `skewMs` behind the given clock.
+ */
+function skewedShims(clock: VirtualClock, skewMs: number): TimerShims {
+	class SkewedDate extends clock.Date {
+		constructor(...args: any[]) {
+			if (args.length === 0) {
+				super(clock.wallNow() - skewMs);
+			} else {
+				super(...(args as []));
+			}
+		}
+		public static now() {
+			return clock.wallNow() - skewMs;
+		}
+	}
+	return { ...clock, Date: SkewedDate as TimerShims["Date"] };
+}
+
+describe("network sync", () => {
+	let clock: VirtualClock;
+	let network: LoopbackNetwork;
+	let hostTimer: SuperTimer;
+	let clientTimer: SuperTimer;
+	let host: NetworkSyncHost;
+	let client: NetworkSyncClient;
+
+	function connect(latencyMs: number, skewMs: number) {
+		network = new LoopbackNetwork({ latencyMs, shims: clock });
+		hostTimer = new SuperTimer({ name: "host", shims: clock });
+		host = new NetworkSyncHost(hostTimer, { transport: network.connect(), shims: clock });
+		const clientShims = skewedShims(clock, skewMs);
+		clientTimer = new SuperTimer({ name: "client", shims: clientShims });
+		client = new NetworkSyncClient(clientTimer, { id: "client", transport: network.connect(), shims: clientShims });
+	}
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date("2024-01-01T00:00:00Z") });
+	});
+
+	afterEach(() => {
+		client.dispose();
+		host.dispose();
+		clientTimer.dispose();
+		hostTimer.dispose();
+	});
+
+	it("estimates the clock offset and round-trip time", () => {
+		connect(40, 5000);
+		expect(client.getClockOffset()).toBeUndefined();
+		clock.advanceBy(80);
+		expect(client.getClockOffset()).toBe(5000);
+		expect(client.getRoundTripMs()).toBe(80);
+	});
+
+	it("mirrors the host's timer despite latency and clock skew", () => {
+		connect(40, 5000);
+		hostTimer.start();
+		clock.advanceBy(1000);
+		expect(clientTimer.isPaused()).toBe(false);
+		expect(clientTimer.getElapsedMs()).toBe(hostTimer.getElapsedMs());
+
+		hostTimer.pause();
+		clock.advanceBy(40);
+		expect(clientTimer.isPaused()).toBe(true);
+		expect(clientTimer.getElapsedMs()).toBe(hostTimer.getElapsedMs());
+	});
+
+	it("applies operations requested by clients on the host", () => {
+		connect(0, 0);
+		client.unpause();
+		expect(hostTimer.isPaused()).toBe(false);
+		client.addTime("1m");
+		client.setSpeedMultiplier(2);
+		clock.advanceBy(1000);
+		expect(hostTimer.getElapsedMs()).toBe(62000);
+		expect(clientTimer.getElapsedMs()).toBe(62000);
+
+		client.setTime(0);
+		client.pause();
+		expect(hostTimer.isPaused()).toBe(true);
+		expect(hostTimer.getElapsedMs()).toBe(0);
+		expect(clientTimer.getElapsedMs()).toBe(0);
+	});
+
+	it("ignores messages that are not for it", () => {
+		connect(0, 0);
+		const stranger = network.connect();
+		stranger.send("not json");
+		stranger.send(JSON.stringify({ hello: "world" }));
+		stranger.send(JSON.stringify({ type: "pong", clientId: "someone-else", pingId: 1 }));
+		expect(client.getClockOffset()).toBe(0);
+	});
+
+	it("refuses operations once disposed", () => {
+		connect(0, 0);
+		client.dispose();
+		expect(() => client.pause()).toThrow('Network sync client "client" has been disposed and cannot be used.');
+	});
+});
@@ -0,0 +1,514 @@
+import type { SuperTimerBase, TimerShims, TimerSyncState } from "./super-timer.js";
+import { Duration, durationToMs } from "./util.js";
+
+/**
+ * Sends and receives serialized messages, e.g. over a WebSocket. A host's
+ * messages must reach every client, and each client's messages must reach
+ * the host. Endpoints ignore messages that are not meant for them, so a
+ * transport may broadcast every message to everyone.
+ */
+export interface NetworkTransport {
+	send: (data: string) => void;
+
+	/**
+	 * Listen for incoming messages.
+	 * @param handler
+	 * @returns A function that stops listening
+	 */
+	receive: (handler: (data: string) => void) => () => void;
+}
+
+/**
+ * A change to the host's timer requested by a client. Times are in terms
+ * of elapsed time, also for countdowns.
+ */
+export type NetworkTimerOperation =
+	| { type: "pause" }
+	| { type: "unpause" }
+	| { type: "setTime"; elapsedMs: number }
+	| { type: "addTime"; ms: number }
+	| { type: "setSpeed"; speed: number };
+
+export type NetworkSyncMessage =
+	| { type: "hello"; clientId: string }
+	| { type: "ping"; clientId: string; pingId: number; clientSentAt: number }
+	| {
+			type: "pong";
+			clientId: string;
+			pingId: number;
+			clientSentAt: number;
+			hostReceivedAt: number;
+			hostSentAt: number;
+	  }
+	| { type: "op"; clientId: string; op: NetworkTimerOperation }
+	| { type: "state"; seq: number; state: TimerSyncState };
+
+/**
+ * One round trip between a client and the host.
+ */
+export interface ClockSample {
+	/**
+	 * How far the host's clock is ahead of the client's, in milliseconds.
+	 */
+	offsetMs: number;
+
+	/**
+	 * The time the messages spent in transit, excluding the time the host
+	 * took to reply.
+	 */
+	roundTripMs: number;
+}
+
+export type NetworkSyncShims = Pick<
+	TimerShims,
+	"Date" | "setTimeout" | "clearTimeout" | "setInterval" | "clearInterval"
+>;
+
+export interface NetworkSyncHostOptions {
+	transport: NetworkTransport;
+
+	/**
+	 * While the timer runs, how often the host publishes its state, in
+	 * elapsed milliseconds.
+	 *
+	 * @default 1000
+	 */
+	heartbeatMs?: number;
+
+	/**
+	 * Replacements for the global clock functions, e.g. a VirtualClock.
+	 * Should match the shims of the timer.
+	 */
+	shims?: Partial<NetworkSyncShims>;
+}
+
+export interface NetworkSyncClientOptions {
+	transport: NetworkTransport;
+
+	/**
+	 * A unique identifier for this client.
+	 *
+	 * @default A random string
+	 */
+	id?: string;
+
+	/**
+	 * How often to measure the clock offset and round-trip time.
+	 *
+	 * @default 10000
+	 */
+	pingIntervalMs?: number;
+
+	/**
+	 * How many of the most recent measurements to keep. The offset is taken
+	 * from the measurement with the shortest round trip, which is the least
+	 * affected by network delays.
+	 *
+	 * @default 8
+	 */
+	maxSamples?: number;
+
+	/**
+	 * The client's timer is only adjusted when it differs from the host's by
+	 * more than this amount.
+	 *
+	 * @default 5
+	 */
+	toleranceMs?: number;
+
+	/**
+	 * Replacements for the global clock functions, e.g. a VirtualClock.
+	 * Should match the shims of the timer.
+	 */
+	shims?: Partial<NetworkSyncShims>;
+}
+
+const defaultShims: NetworkSyncShims = {
+	Date,
+	setTimeout: setTimeout.bind(globalThis),
+	clearTimeout: clearTimeout.bind(globalThis),
+	setInterval: setInterval.bind(globalThis),
+	clearInterval: clearInterval.bind(globalThis),
+};
+
+function parseMessage(data: string): NetworkSyncMessage | undefined {
+	try {
+		const message = JSON.parse(data);
+		return message && typeof message.type === "string" ? message : undefined;
+	} catch {
+		// Not ours
+		return undefined;
+	}
+}
+
+let syncId = 1;
+
+/**
+ * Owns the authoritative timer that every client mirrors. The host
+ * answers clock measurements, applies operations requested by clients,
+ * and publishes the state of the timer whenever it changes. The host
+ * usually runs alongside the server, but may run on any one device.
+ */
+export class NetworkSyncHost {
+	private timer: SuperTimerBase<any>;
+	private transport: NetworkTransport;
+	private lib: NetworkSyncShims;
+	private seq: number = 0;
+	private callbackName: string;
+	private unsubscribers: (() => void)[] = [];
+	private disposed: boolean = false;
+
+	constructor(timer: SuperTimerBase<any>, options: NetworkSyncHostOptions) {
+		this.timer = timer;
+		this.transport = options.transport;
+		this.lib = { ...defaultShims, ...options.shims };
+		this.callbackName = `!network-sync-host-${syncId++}`;
+
+		this.unsubscribers.push(this.transport.receive(data => this.handleMessage(data)));
+		timer.registerCallbacks([
+			{
+				type: "tick-reset",
+				timeMs: options.heartbeatMs ?? 1000,
+				executeOnUpdate: true,
+				name: this.callbackName,
+				callback: () => this.publish(),
+			},
+		]);
+		this.unsubscribers.push(timer.on("setSpeed", () => this.publish()));
+		this.publish();
+	}
+
+	/**
+	 * Publish the state of the timer now.
+	 */
+	public publish() {
+		if (this.disposed || this.timer.isDisposed()) {
+			return;
+		}
+		this.send({ type: "state", seq: ++this.seq, state: this.timer.getSyncState() });
+	}
+
+	/**
+	 * Stop synchronizing. The timer itself is not affected.
+	 */
+	public dispose() {
+		for (const unsubscribe of this.unsubscribers) {
+			unsubscribe();
+		}
+		if (!this.timer.isDisposed()) {
+			this.timer.removeCallbacks([this.callbackName]);
+		}
+		this.disposed = true;
+	}
+
+	private send(message: NetworkSyncMessage) {
+		this.transport.send(JSON.stringify(message));
+	}
+
+	private handleMessage(data: string) {
+		const receivedAt = new this.lib.Date().getTime();
+		const message = parseMessage(data);
+		if (!message || this.disposed || this.timer.isDisposed()) {
+			return;
+		}
+
+		switch (message.type) {
+			case "hello":
+				this.publish();
+				break;
+
+			case "ping":
+				this.send({
+					type: "pong",
+					clientId: message.clientId,
+					pingId: message.pingId,
+					clientSentAt: message.clientSentAt,
+					hostReceivedAt: receivedAt,
+					hostSentAt: new this.lib.Date().getTime(),
+				});
+				break;
+
+			case "op":
+				this.applyOperation(message.op);
+				break;
+		}
+	}
+
+	private applyOperation(op: NetworkTimerOperation) {
+		const state = this.timer.getSyncState();
+		switch (op.type) {
+			case "pause":
+				this.timer.pause();
+				break;
+			case "unpause":
+				this.timer.unpause();
+				break;
+			case "setTime":
+				this.timer.applySyncState({ ...state, elapsedMs: op.elapsedMs });
+				break;
+			case "addTime":
+				this.timer.applySyncState({ ...state, elapsedMs: state.elapsedMs + op.ms });
+				break;
+			case "setSpeed":
+				this.timer.applySyncState({ ...state, speed: op.speed });
+				break;
+		}
+	}
+}
+
+/**
+ * Makes a timer on this device mirror the host's timer. The client
+ * estimates how far its clock is from the host's, NTP-style, so that the
+ * elapsed time agrees with the host's to within a few milliseconds
+ * regardless of network latency.
+ *
+ * Changes to the timer should be requested through the client, e.g.
+ * `client.pause()`, so that they apply to every device. They take effect
+ * when the host publishes its new state.
+ */
+export class NetworkSyncClient {
+	private timer: SuperTimerBase<any>;
+	private transport: NetworkTransport;
+	private lib: NetworkSyncShims;
+	private id: string;
+	private maxSamples: number;
+	private toleranceMs: number;
+	private samples: ClockSample[] = [];
+	private nextPingId: number = 1;
+	private latestState: { seq: number; state: TimerSyncState } | undefined;
+	private pingInterval: number | NodeJS.Timeout;
+	private unsubscribe: () => void;
+	private disposed: boolean = false;
+
+	constructor(timer: SuperTimerBase<any>, options: NetworkSyncClientOptions) {
+		this.timer = timer;
+		this.transport = options.transport;
+		this.lib = { ...defaultShims, ...options.shims };
+		this.id = options.id ?? `${Math.random().toString(36).slice(2)}-${syncId++}`;
+		this.maxSamples = options.maxSamples ?? 8;
+		this.toleranceMs = options.toleranceMs ?? 5;
+
+		this.unsubscribe = this.transport.receive(data => this.handleMessage(data));
+		this.send({ type: "hello", clientId: this.id });
+		this.ping();
+		this.pingInterval = this.lib.setInterval(() => this.ping(), options.pingIntervalMs ?? 10000);
+	}
+
+	public getId(): string {
+		return this.id;
+	}
+
+	/**
+	 * Gets the best estimate of how far the host's clock is ahead of this
+	 * device's clock, or undefined before the first measurement.
+	 */
+	public getClockOffset(): number | undefined {
+		return this.getBestSample()?.offsetMs;
+	}
+
+	/**
+	 * Gets the round-trip time of the measurement the clock offset is based
+	 * on, or undefined before the first measurement.
+	 */
+	public getRoundTripMs(): number | undefined {
+		return this.getBestSample()?.roundTripMs;
+	}
+
+	/**
+	 * Measure the clock offset and round-trip time now, in addition to the
+	 * periodic measurements.
+	 */
+	public ping() {
+		this.send({
+			type: "ping",
+			clientId: this.id,
+			pingId: this.nextPingId++,
+			clientSentAt: new this.lib.Date().getTime(),
+		});
+	}
+
+	public pause() {
+		this.sendOperation({ type: "pause" });
+	}
+
+	public unpause() {
+		this.sendOperation({ type: "unpause" });
+	}
+
+	/**
+	 * Request that the host set the elapsed time of the timer.
+	 * @param time
+	 */
+	public setTime(time: Duration) {
+		this.sendOperation({ type: "setTime", elapsedMs: durationToMs(time) });
+	}
+
+	/**
+	 * Request that the host add to the elapsed time of the timer. Use a
+	 * negative value to add time remaining to a countdown.
+	 * @param time
+	 */
+	public addTime(time: Duration) {
+		this.sendOperation({ type: "addTime", ms: durationToMs(time) });
+	}
+
+	public setSpeedMultiplier(speed: number) {
+		this.sendOperation({ type: "setSpeed", speed });
+	}
+
+	/**
+	 * Stop synchronizing. The timer itself is not affected.
+	 */
+	public dispose() {
+		this.lib.clearInterval(this.pingInterval);
+		this.unsubscribe();
+		this.disposed = true;
+	}
+
+	private checkDisposed() {
+		if (this.disposed) {
+			throw new Error(`Network sync client "${this.id}" has been disposed and cannot be used.`);
+		}
+	}
+
+	private send(message: NetworkSyncMessage) {
+		this.transport.send(JSON.stringify(message));
+	}
+
+	private sendOperation(op: NetworkTimerOperation) {
+		this.checkDisposed();
+		this.send({ type: "op", clientId: this.id, op });
+	}
+
+	private getBestSample(): ClockSample | undefined {
+		let best: ClockSample | undefined;
+		for (const sample of this.samples) {
+			if (!best || sample.roundTripMs < best.roundTripMs) {
+				best = sample;
+			}
+		}
+		return best;
+	}
+
+	private handleMessage(data: string) {
+		const receivedAt = new this.lib.Date().getTime();
+		const message = parseMessage(data);
+		if (!message || this.disposed || this.timer.isDisposed()) {
+			return;
+		}
+
+		if (message.type === "pong" && message.clientId === this.id) {
+			const previousOffsetMs = this.getClockOffset();
+			this.samples.push({
+				offsetMs: (message.hostReceivedAt - message.clientSentAt + (message.hostSentAt - receivedAt)) / 2,
+				roundTripMs: receivedAt - message.clientSentAt - (message.hostSentAt - message.hostReceivedAt),
+			});
+			if (this.samples.length > this.maxSamples) {
+				this.samples.shift();
+			}
+			if (this.getClockOffset() !== previousOffsetMs) {
+				this.applyLatestState();
+			}
+		} else if (message.type === "state") {
+			// Messages may arrive out of order
+			if (this.latestState && message.seq <= this.latestState.seq) {
+				return;
+			}
+			this.latestState = { seq: message.seq, state: message.state };
+			this.applyLatestState();
+		}
+	}
+
+	// The state is applied once the clock offset is known, and again whenever
+	// the estimate changes. The state accounts for the time since it was
+	// captured, so applying it again later is still accurate.
+	private applyLatestState() {
+		const offsetMs = this.getClockOffset();
+		if (!this.latestState || offsetMs === undefined) {
+			return;
+		}
+		const { state } = this.latestState;
+		this.timer.applySyncState({ ...state, capturedAt: state.capturedAt - offsetMs }, this.toleranceMs);
+	}
+}
+
+export interface LoopbackNetworkOptions {
+	/**
+	 * How long each message takes to arrive, in milliseconds. If 0,
+	 * messages are delivered synchronously.
+	 *
+	 * @default 0
+	 */
+	latencyMs?: number;
+
+	/**
+	 * Replacement for the global setTimeout, e.g. a VirtualClock's.
+	 */
+	shims?: Partial<Pick<TimerShims, "setTimeout">>;
+}
+
+/**
+ * An in-process network for testing network sync without a network.
+ * Every message sent by one endpoint is delivered to every other endpoint.
+ *
+ * @example
+ * const network = new LoopbackNetwork({ latencyMs: 20, shims: clock });
+ * const host = new NetworkSyncHost(hostTimer, { transport: network.connect(), shims: clock });
+ * const client = new NetworkSyncClient(clientTimer, { transport: network.connect(), shims: clock });
+ */
+export class LoopbackNetwork {
+	private latencyMs: number;
+	private setTimeout: TimerShims["setTimeout"];
+	private handlers: Map<NetworkTransport, Set<(data: string) => void>> = new Map();
+
+	constructor(options: LoopbackNetworkOptions = {}) {
+		this.latencyMs = options.latencyMs ?? 0;
+		this.setTimeout = options.shims?.setTimeout ?? setTimeout.bind(globalThis);
+	}
+
+	/**
+	 * Create a new endpoint on the network.
+	 */
+	public connect(): NetworkTransport {
+		const handlers: Set<(data: string) => void> = new Set();
+		const transport: NetworkTransport = {
+			send: data => this.deliver(transport, data),
+			receive: handler => {
+				handlers.add(handler);
+				return () => {
+					handlers.delete(handler);
+				};
+			},
+		};
+		this.handlers.set(transport, handlers);
+		return transport;
+	}
+
+	/**
+	 * Remove an endpoint from the network. Messages in flight to it are dropped.
+	 * @param transport
+	 */
+	public disconnect(transport: NetworkTransport) {
+		this.handlers.delete(transport);
+	}
+
+	private deliver(sender: NetworkTransport, data: string) {
+		for (const [transport, handlers] of this.handlers) {
+			if (transport === sender) {
+				continue;
+			}
+			const run = () => {
+				if (this.handlers.has(transport)) {
+					for (const handler of [...handlers]) {
+						handler(data);
+					}
+				}
+			};
+			if (this.latencyMs > 0) {
+				this.setTimeout(run, this.latencyMs);
+			} else {
+				run();
+			}
+		}
+	}
+}
@@ -0,0 +1,178 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { act, create, ReactTestRenderer } from "react-test-renderer";
+import {
+	TimerStateValue,
+	useSuperCountdown,
+	UseSuperCountdownResult,
+	useSuperTimer,
+	UseSuperTimerResult,
+	useTimerState,
+} from "./react";
+import { SuperTimer, VirtualClock } from "./super-timer";
+
+declare global {
+	var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * Render a hook in a test component and return a function that reads its latest result.
+ */
+function renderHook<T>(hook: () => T) {
+	let result: T;
+	let renders = 0;
+	function Component() {
+		result = hook();
+		renders++;
+		return null;
+	}
+	let renderer: ReactTestRenderer;
+	act(() => {
+		renderer = create(createElement(Component));
+	});
+	return {
+		current: () => result,
+		renders: () => renders,
+		unmount: () => act(() => renderer.unmount()),
+	};
+}
+
+describe("react hooks", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("useSuperTimer re-renders on the update interval", () => {
+		const hook = renderHook(() => useSuperTimer({ shims: clock, updateIntervalMs: 500 }));
+		act(() => hook.current().start());
+		expect(hook.current().isPaused).toBe(false);
+
+		act(() => clock.advanceBy(1200));
+		expect(hook.current().elapsedMs).toBe(1000);
+		hook.unmount();
+	});
+
+	it("useSuperTimer updates immediately on adjustments", () => {
+		const hook = renderHook(() => useSuperTimer({ shims: clock, updateIntervalMs: 1000 }));
+		act(() => hook.current().addTime(3000));
+		expect(hook.current().elapsedMs).toBe(3000);
+		act(() => hook.current().setTime(500));
+		expect(hook.current().elapsedMs).toBe(500);
+		hook.unmount();
+	});
+
+	it("disposes the timer on unmount", () => {
+		const hook = renderHook(() => useSuperTimer({ shims: clock }));
+		const { timer } = hook.current();
+		hook.unmount();
+		expect(timer.isDisposed()).toBe(true);
+		expect(clock.getPendingCount()).toBe(0);
+	});
+
+	it("recreates the timer when the dependencies change", () => {
+		let dep = 1;
+		let result: UseSuperTimerResult | undefined;
+		function Component() {
+			result = useSuperTimer({ shims: clock }, [dep]);
+			return null;
+		}
+		let renderer: ReactTestRenderer;
+		act(() => {
+			renderer = create(createElement(Component));
+		});
+		const first = result!.timer;
+		dep = 2;
+		act(() => renderer.update(createElement(Component)));
+		expect(result!.timer).not.toBe(first);
+		expect(first.isDisposed()).toBe(true);
+		act(() => renderer.unmount());
+	});
+
+	it("keeps a single live timer per hook in StrictMode", () => {
+		// Timers linked to a parent stay in its children until they are disposed
+		class ParentTimer extends SuperTimer {
+			getLinkedChildren() {
+				return [...this.linkedChildren];
+			}
+		}
+		const parent = new ParentTimer({ shims: clock });
+		parent.start();
+		let result: UseSuperTimerResult | undefined;
+		let countdownResult: UseSuperCountdownResult | undefined;
+		function Component() {
+			result = useSuperTimer({ shims: clock, parent: { timer: parent }, updateIntervalMs: 500 });
+			countdownResult = useSuperCountdown(5000, { shims: clock, parent: { timer: parent } });
+			return null;
+		}
+		// Unlike the test renderer, a DOM root renders twice and runs effects twice in StrictMode
+		const root = createRoot(document.createElement("div"));
+		act(() => root.render(createElement(StrictMode, null, createElement(Component))));
+		const children = parent.getLinkedChildren();
+		expect(children).toHaveLength(2);
+		expect(children).toEqual(expect.arrayContaining([result!.timer, countdownResult!.countdown]));
+
+		act(() => {
+			result!.start();
+			countdownResult!.start();
+		});
+		act(() => clock.advanceBy(1000));
+		expect(result!.elapsedMs).toBe(1000);
+		expect(countdownResult!.timeRemaining).toBe(4000);
+
+		act(() => root.unmount());
+		expect(parent.getLinkedChildren()).toEqual([]);
+		expect(clock.getPendingCount()).toBe(0);
+		parent.dispose();
+	});
+
+	it("useSuperCountdown reports the time remaining and calls the latest onComplete", () => {
+		const calls: string[] = [];
+		let label = "first";
+		let result: UseSuperCountdownResult | undefined;
+		function Component() {
+			const current = label;
+			result = useSuperCountdown(2000, { shims: clock, onComplete: () => calls.push(current) });
+			return null;
+		}
+		let renderer: ReactTestRenderer;
+		act(() => {
+			renderer = create(createElement(Component));
+		});
+		expect(result!.timeRemaining).toBe(2000);
+		act(() => result!.start());
+		act(() => clock.advanceBy(1000));
+		expect(result!.timeRemaining).toBe(1000);
+
+		label = "second";
+		act(() => renderer.update(createElement(Component)));
+		act(() => clock.advanceBy(1000));
+		expect(result!.isDone).toBe(true);
+		expect(calls).toEqual(["second"]);
+		act(() => renderer.unmount());
+	});
+
+	it("useTimerState follows a timer it does not own", () => {
+		const timer = new SuperTimer({ shims: clock });
+		const hook = renderHook<TimerStateValue>(() => useTimerState(timer, { updateIntervalMs: 100 }));
+		act(() => timer.start());
+		act(() => clock.advanceBy(250));
+		expect(hook.current()).toEqual({ elapsedMs: 200, isPaused: false });
+
+		act(() => {
+			timer.pause();
+		});
+		const renders = hook.renders();
+		act(() => clock.advanceBy(1000));
+		expect(hook.renders()).toBe(renders);
+
+		hook.unmount();
+		expect(timer.isDisposed()).toBe(false);
+		timer.dispose();
+	});
+});
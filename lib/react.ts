@@ -0,0 +1,259 @@
+import { DependencyList, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import {
+	SuperCountdown,
+	SuperCountdownOptions,
+	SuperSequence,
+	SuperTimer,
+	SuperTimerBase,
+	SuperTimerOptions,
+	TimerResetOptions,
+} from "./super-timer.js";
+
+export interface TimerStateOptions {
+	/**
+	 * How often to re-render with the latest timer state. Use "raf" to
+	 * re-render on every animation frame. Regardless of this value, the
+	 * state is updated immediately when the timer is paused, unpaused,
+	 * reset, or has its time or speed adjusted.
+	 *
+	 * @default 100
+	 */
+	updateIntervalMs?: number | "raf";
+}
+
+export interface TimerStateValue {
+	/**
+	 * The elapsed time of the timer as of the last update.
+	 */
+	elapsedMs: number;
+
+	/**
+	 * Indicates whether or not the timer is paused.
+	 */
+	isPaused: boolean;
+
+	/**
+	 * For countdowns and sequences, the time remaining as of the last update.
+	 */
+	timeRemaining?: number;
+}
+
+export interface TimerControls {
+	start: () => void;
+	pause: () => void;
+	unpause: () => void;
+	reset: (options?: TimerResetOptions) => void;
+	setSpeedMultiplier: (speedMultiplier: number) => void;
+}
+
+export type UseSuperTimerOptions = SuperTimerOptions & TimerStateOptions;
+
+export interface UseSuperTimerResult extends TimerStateValue, TimerControls {
+	timer: SuperTimer;
+	addTime: (ms: number, suppressCallbacks?: boolean) => void;
+	setTime: (ms: number, suppressCallbacks?: boolean) => void;
+}
+
+export type UseSuperCountdownOptions = SuperCountdownOptions &
+	TimerStateOptions & {
+		/**
+		 * Callback to execute when the countdown completes. The latest
+		 * callback passed to the hook is always the one that runs.
+		 */
+		onComplete?: (timer: SuperCountdown) => void;
+	};
+
+export interface UseSuperCountdownResult extends TimerStateValue, TimerControls {
+	countdown: SuperCountdown;
+	timeRemaining: number;
+	isDone: boolean;
+	addTime: (ms: number, suppressCallbacks?: boolean) => void;
+	setTimeRemaining: (ms: number, suppressCallbacks?: boolean) => void;
+}
+
+let hookId = 1;
+
+function readState(timer: SuperTimerBase<any>): TimerStateValue {
+	if (timer.isDisposed()) {
+		return { elapsedMs: 0, isPaused: true };
+	}
+	const state: TimerStateValue = { elapsedMs: timer.getElapsedMs(), isPaused: timer.isPaused() };
+	if (timer instanceof SuperCountdown) {
+		state.timeRemaining = timer.getTimeRemaining();
+	} else if (timer instanceof SuperSequence) {
+		state.timeRemaining = timer.getTotalTimeRemaining();
+	}
+	return state;
+}
+
+function isSameState(a: TimerStateValue, b: TimerStateValue) {
+	return a.elapsedMs === b.elapsedMs && a.isPaused === b.isPaused && a.timeRemaining === b.timeRemaining;
+}
+
+function depsChanged(prev: DependencyList | undefined, next: DependencyList) {
+	return !prev || prev.length !== next.length || prev.some((dep, i) => !Object.is(dep, next[i]));
+}
+
+// Timers created while rendering that have not been committed yet. Renders
+// that React discards, such as the first of the two renders of a new
+// component under StrictMode, never commit their timer.
+const uncommittedTimers: Set<SuperTimerBase<any>> = new Set();
+
+/**
+ * Own a timer for the lifetime of the component. The timer is disposed
+ * on unmount and recreated when any of the dependencies change. Under
+ * StrictMode, where effects are run, cleaned up, and run again, the
+ * disposed timer is replaced with a new one. Timers created by renders
+ * that are never committed are disposed after the next commit.
+ */
+function useOwnedTimer<T extends SuperTimerBase<any>>(create: () => T, deps: DependencyList): T {
+	const timerRef = useRef<T>();
+	const depsRef = useRef<DependencyList>();
+	const [, setGeneration] = useState(0);
+
+	if (!timerRef.current || depsChanged(depsRef.current, deps)) {
+		timerRef.current = create();
+		depsRef.current = deps;
+		uncommittedTimers.add(timerRef.current);
+	}
+
+	// Layout effects of a commit all run before its passive effects, so every
+	// timer that was committed is removed before the others are disposed below
+	useLayoutEffect(() => {
+		uncommittedTimers.delete(timerRef.current!);
+	});
+
+	useEffect(() => {
+		for (const uncommitted of uncommittedTimers) {
+			uncommitted.dispose();
+		}
+		uncommittedTimers.clear();
+
+		let timer = timerRef.current!;
+		if (timer.isDisposed()) {
+			timer = create();
+			timerRef.current = timer;
+			setGeneration(g => g + 1);
+		}
+		return () => {
+			timer.dispose();
+		};
+	}, deps);
+
+	return timerRef.current;
+}
+
+/**
+ * Subscribe to the state of an existing timer. Re-renders at most once
+ * per `updateIntervalMs`, plus once for each pause, unpause, reset, or
+ * time or speed adjustment, and only when the state has changed.
+ * @param timer
+ * @param options
+ */
+export function useTimerState(timer: SuperTimerBase<any>, options: TimerStateOptions = {}): TimerStateValue {
+	const { updateIntervalMs = 100 } = options;
+	const [state, setState] = useState(() => readState(timer));
+
+	useEffect(() => {
+		if (timer.isDisposed()) {
+			return;
+		}
+		const update = () => {
+			const next = readState(timer);
+			setState(prev => (isSameState(prev, next) ? prev : next));
+		};
+		const name = `!use-timer-state-${hookId++}`;
+		timer.registerCallbacks([
+			{
+				type: "tick-reset",
+				timeMs: updateIntervalMs === "raf" ? 0 : updateIntervalMs,
+				requireAnimationFrame: updateIntervalMs === "raf",
+				executeOnUpdate: true,
+				name,
+				callback: update,
+			},
+		]);
+
+		// Catch up on anything that happened between render and subscribing
+		update();
+		return () => {
+			if (!timer.isDisposed()) {
+				timer.removeCallbacks([name]);
+			}
+		};
+	}, [timer, updateIntervalMs]);
+
+	return state;
+}
+
+function useTimerControls(timer: SuperTimerBase<any>): TimerControls {
+	return useMemo(
+		() => ({
+			start: () => timer.start(),
+			pause: () => {
+				timer.pause();
+			},
+			unpause: () => timer.unpause(),
+			reset: (options?: TimerResetOptions) => timer.reset(options),
+			setSpeedMultiplier: (speedMultiplier: number) => timer.setSpeedMultiplier(speedMultiplier),
+		}),
+		[timer],
+	);
+}
+
+/**
+ * Create a SuperTimer that lives as long as the component, along with
+ * its current state and bound control functions.
+ * @param options Timer options. Only read when the timer is created.
+ * @param deps When any of these change, the timer is disposed and recreated.
+ */
+export function useSuperTimer(options: UseSuperTimerOptions = {}, deps: DependencyList = []): UseSuperTimerResult {
+	const { updateIntervalMs, ...timerOptions } = options;
+	const timer = useOwnedTimer(() => new SuperTimer(timerOptions), deps);
+	const state = useTimerState(timer, { updateIntervalMs });
+	const controls = useTimerControls(timer);
+	const adjustments = useMemo(
+		() => ({
+			addTime: (ms: number, suppressCallbacks?: boolean) => timer.addTime(ms, suppressCallbacks),
+			setTime: (ms: number, suppressCallbacks?: boolean) => timer.setTime(ms, suppressCallbacks),
+		}),
+		[timer],
+	);
+	return { timer, ...state, ...controls, ...adjustments };
+}
+
+/**
+ * Create a SuperCountdown that lives as long as the component, along with
+ * its current state and bound control functions.
+ * @param timeMs The duration of the countdown
+ * @param options Countdown options. Only read when the countdown is created,
+ * except for onComplete.
+ * @param deps When `timeMs` or any of these change, the countdown is disposed
+ * and recreated.
+ */
+export function useSuperCountdown(
+	timeMs: number,
+	options: UseSuperCountdownOptions = {},
+	deps: DependencyList = [],
+): UseSuperCountdownResult {
+	const { updateIntervalMs, onComplete, ...timerOptions } = options;
+	const onCompleteRef = useRef(onComplete);
+	onCompleteRef.current = onComplete;
+
+	const countdown = useOwnedTimer(
+		() => new SuperCountdown(timeMs, timer => onCompleteRef.current?.(timer), timerOptions),
+		[timeMs, ...deps],
+	);
+	const state = useTimerState(countdown, { updateIntervalMs });
+	const controls = useTimerControls(countdown);
+	const adjustments = useMemo(
+		() => ({
+			addTime: (ms: number, suppressCallbacks?: boolean) => countdown.addTime(ms, suppressCallbacks),
+			setTimeRemaining: (ms: number, suppressCallbacks?: boolean) =>
+				countdown.setTimeRemaining(ms, suppressCallbacks),
+		}),
+		[countdown],
+	);
+	const timeRemaining = state.timeRemaining ?? timeMs;
+	return { countdown, ...state, timeRemaining, isDone: timeRemaining <= 0, ...controls, ...adjustments };
+}
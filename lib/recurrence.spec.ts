@@ -0,0 +1,122 @@
+import { nextOccurrence, parseRecurrenceRule } from "./recurrence";
+import { SuperTimer, VirtualClock } from "./super-timer";
+
+const utc = (iso: string) => new Date(`${iso}Z`).getTime();
+const iso = (ms: number | undefined) => (ms === undefined ? undefined : new Date(ms).toISOString());
+
+describe("parseRecurrenceRule", () => {
+	it("parses cron fields, ranges, steps and names", () => {
+		const schedule = parseRecurrenceRule("*/15 9-10 * JAN,MAR MON-FRI", "UTC");
+		expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+		expect(schedule.hours).toEqual([9, 10]);
+		expect(schedule.monthDays).toBeUndefined();
+		expect(schedule.months).toEqual([1, 3]);
+		expect(schedule.weekdays).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it("expands macros", () => {
+		expect(parseRecurrenceRule("@daily", "UTC")).toMatchObject({ minutes: [0], hours: [0], rule: "@daily" });
+	});
+
+	it("parses RRULEs with or without the prefix", () => {
+		const schedule = parseRecurrenceRule("RRULE:FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=8;BYMINUTE=30", "UTC");
+		expect(schedule).toMatchObject({ minutes: [30], hours: [8], weekdays: [1, 3] });
+		expect(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1", "UTC").monthDays).toEqual([-1]);
+	});
+
+	it("rejects invalid rules and time zones", () => {
+		expect(() => parseRecurrenceRule("@sometimes")).toThrow('Invalid recurrence rule "@sometimes"');
+		expect(() => parseRecurrenceRule("61 * * * *")).toThrow('Invalid recurrence rule "61 * * * *"');
+		expect(() => parseRecurrenceRule("* * * * *", "Mars/Olympus_Mons")).toThrow(RangeError);
+	});
+});
+
+describe("nextOccurrence", () => {
+	it("finds the next occurrence strictly after the given time", () => {
+		expect(iso(nextOccurrence("0 9 * * 1-5", utc("2024-01-05T09:00:00"), "UTC"))).toBe("2024-01-08T09:00:00.000Z");
+		expect(iso(nextOccurrence("*/15 * * * *", utc("2024-01-01T10:07:30"), "UTC"))).toBe("2024-01-01T10:15:00.000Z");
+	});
+
+	it("supports the last day of the month", () => {
+		expect(iso(nextOccurrence("0 0 L * *", utc("2024-02-10T00:00:00"), "UTC"))).toBe("2024-02-29T00:00:00.000Z");
+		expect(iso(nextOccurrence("FREQ=MONTHLY;BYMONTHDAY=-1", utc("2024-04-30T12:00:00"), "UTC"))).toBe(
+			"2024-05-31T00:00:00.000Z",
+		);
+	});
+
+	it("matches either the day of the month or the weekday in cron", () => {
+		// The 13th, or any Friday
+		expect(iso(nextOccurrence("0 0 13 * 5", utc("2024-01-01T00:00:00"), "UTC"))).toBe("2024-01-05T00:00:00.000Z");
+	});
+
+	it("evaluates the rule in the given time zone", () => {
+		expect(iso(nextOccurrence("0 9 * * *", utc("2024-01-01T00:00:00"), "America/New_York"))).toBe(
+			"2024-01-01T14:00:00.000Z",
+		);
+		// Clocks go forward at 02:00 on March 10th, so 02:30 does not occur
+		expect(iso(nextOccurrence("30 2 * * *", utc("2024-03-10T05:00:00"), "America/New_York"))).toBe(
+			"2024-03-10T07:00:00.000Z",
+		);
+	});
+
+	it("repeats the hour that occurs twice when clocks go back only for rules that run every hour", () => {
+		// Clocks go back at 02:00 on November 3rd, so 01:00-01:59 occurs twice
+		const occurrences: (string | undefined)[] = [];
+		let after = utc("2024-11-03T05:30:00");
+		for (let i = 0; i < 6; i++) {
+			after = nextOccurrence("*/15 * * * *", after, "America/New_York")!;
+			occurrences.push(iso(after));
+		}
+		expect(occurrences).toEqual([
+			"2024-11-03T05:45:00.000Z",
+			"2024-11-03T06:00:00.000Z",
+			"2024-11-03T06:15:00.000Z",
+			"2024-11-03T06:30:00.000Z",
+			"2024-11-03T06:45:00.000Z",
+			"2024-11-03T07:00:00.000Z",
+		]);
+		expect(iso(nextOccurrence("30 1 * * *", utc("2024-11-03T05:30:00"), "America/New_York"))).toBe(
+			"2024-11-04T06:30:00.000Z",
+		);
+	});
+
+	it("returns undefined for rules that never occur", () => {
+		expect(nextOccurrence("0 0 30 2 *", utc("2024-01-01T00:00:00"), "UTC")).toBeUndefined();
+	});
+});
+
+describe("recurrence callbacks", () => {
+	it("run at wall-clock occurrences while the timer is running", () => {
+		const clock = new VirtualClock({ startDate: new Date("2024-01-01T08:59:00Z") });
+		const callback = jest.fn();
+		const timer = new SuperTimer({
+			shims: clock,
+			timerSpeedMultiplier: 10,
+			callbacks: [{ type: "recurrence", rule: "0 9,10 * * *", timeZone: "UTC", callback }],
+		});
+		timer.start();
+		clock.advanceBy(60000);
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		// Occurrences that pass while paused are skipped
+		timer.pause();
+		clock.advanceBy(60 * 60000);
+		timer.unpause();
+		clock.advanceBy(23 * 60 * 60000);
+		expect(callback).toHaveBeenCalledTimes(2);
+		timer.dispose();
+	});
+
+	it("can be registered again under a name that was removed", () => {
+		const clock = new VirtualClock({ startDate: new Date("2024-01-01T08:59:00Z") });
+		const callback = jest.fn();
+		const definition = { type: "recurrence" as const, rule: "0 9 * * *", timeZone: "UTC", name: "daily", callback };
+		const timer = new SuperTimer({ shims: clock, callbacks: [definition] });
+		timer.removeCallbacks(["daily"]);
+		expect(() => timer.registerCallbacks([definition])).not.toThrow();
+		timer.start();
+		clock.advanceBy(60000);
+		expect(callback).toHaveBeenCalledTimes(1);
+		timer.dispose();
+	});
+});
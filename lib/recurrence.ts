@@ -0,0 +1,430 @@
+/**
+ * A parsed recurrence rule. Occurrences are at the start (second 0) of
+ * every minute whose wall-clock fields, in the schedule's time zone,
+ * match all of the lists below.
+ */
+export interface RecurrenceSchedule {
+	/**
+	 * The rule the schedule was parsed from.
+	 */
+	rule: string;
+
+	/**
+	 * The IANA time zone in which the wall-clock fields are evaluated, e.g.
+	 * "America/New_York". If undefined, the local time zone is used.
+	 */
+	timeZone: string | undefined;
+
+	minutes: number[];
+	hours: number[];
+
+	/**
+	 * Days of the month, 1-31. Negative values count from the end of the
+	 * month, so -1 is the last day. Undefined means any day.
+	 */
+	monthDays: number[] | undefined;
+
+	/**
+	 * Days of the week, 0-6, where 0 is Sunday. Undefined means any day.
+	 */
+	weekdays: number[] | undefined;
+
+	/**
+	 * Months, 1-12.
+	 */
+	months: number[];
+
+	/**
+	 * When both `monthDays` and `weekdays` are given, whether a day must
+	 * match either of them (as in cron) or both of them (as in RRULE).
+	 */
+	dayMatch: "any" | "all";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long enough to find the next occurrence of any satisfiable rule, e.g.
+// February 29th falling on a Monday.
+const MAX_SEARCH_DAYS = 366 * 28;
+
+const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const cronWeekdayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const rruleWeekdayNames = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const cronMacros: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+function range(min: number, max: number, step = 1) {
+	const values: number[] = [];
+	for (let i = min; i <= max; i += step) {
+		values.push(i);
+	}
+	return values;
+}
+
+function sortedUnique(values: number[]) {
+	return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function invalid(rule: string, reason: string): never {
+	throw new Error(`Invalid recurrence rule "${rule}": ${reason}`);
+}
+
+/**
+ * Parse one field of a cron expression, e.g. "*", "1-5", "0,30", "*\/15",
+ * or "MON-FRI".
+ */
+function parseCronField(rule: string, field: string, min: number, max: number, names?: string[]): number[] {
+	const toNumber = (token: string) => {
+		// Names map to values starting at the minimum, e.g. JAN is 1 and SUN is 0
+		const nameIndex = names?.indexOf(token.toUpperCase()) ?? -1;
+		const value = nameIndex >= 0 ? nameIndex + min : Number(token);
+		if (!Number.isInteger(value) || value < min || value > max) {
+			invalid(rule, `"${token}" must be between ${min} and ${max}.`);
+		}
+		return value;
+	};
+
+	const values: number[] = [];
+	for (const part of field.split(",")) {
+		const [rangePart, stepPart] = part.split("/");
+		const step = stepPart === undefined ? 1 : Number(stepPart);
+		if (!Number.isInteger(step) || step < 1) {
+			invalid(rule, `"${part}" has an invalid step.`);
+		}
+		let start: number;
+		let end: number;
+		if (rangePart === "*" || rangePart === "?") {
+			start = min;
+			end = max;
+		} else if (rangePart.includes("-")) {
+			const [from, to] = rangePart.split("-");
+			start = toNumber(from);
+			end = toNumber(to);
+			if (end < start) {
+				invalid(rule, `"${part}" is an empty range.`);
+			}
+		} else {
+			start = toNumber(rangePart);
+			end = stepPart === undefined ? start : max;
+		}
+		values.push(...range(start, end, step));
+	}
+	return sortedUnique(values);
+}
+
+function parseCron(rule: string, expression: string, timeZone: string | undefined): RecurrenceSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		invalid(rule, "A cron expression must have 5 fields: minute, hour, day of month, month, day of week.");
+	}
+	const [minuteField, hourField, monthDayField, monthField, weekdayField] = fields;
+	const isAny = (field: string) => field === "*" || field === "?";
+
+	let monthDays: number[] | undefined;
+	if (!isAny(monthDayField)) {
+		const parts = monthDayField.split(",");
+		const hasLast = parts.some(p => p.toUpperCase() === "L");
+		const others = parts.filter(p => p.toUpperCase() !== "L");
+		monthDays = [...(others.length ? parseCronField(rule, others.join(","), 1, 31) : []), ...(hasLast ? [-1] : [])];
+	}
+
+	return {
+		rule,
+		timeZone,
+		minutes: parseCronField(rule, minuteField, 0, 59),
+		hours: parseCronField(rule, hourField, 0, 23),
+		monthDays,
+		// 7 is also Sunday
+		weekdays: isAny(weekdayField)
+			? undefined
+			: sortedUnique(parseCronField(rule, weekdayField, 0, 7, cronWeekdayNames).map(d => d % 7)),
+		months: parseCronField(rule, monthField, 1, 12, monthNames),
+		dayMatch: "any",
+	};
+}
+
+function parseRRule(rule: string, expression: string, timeZone: string | undefined): RecurrenceSchedule {
+	const parts: Record<string, string> = {};
+	for (const pair of expression.replace(/^RRULE:/i, "").split(";")) {
+		if (!pair.trim()) continue;
+		const [key, value] = pair.split("=");
+		if (value === undefined) {
+			invalid(rule, `"${pair}" is not a KEY=VALUE pair.`);
+		}
+		parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+	}
+
+	const numbers = (key: string, min: number, max: number) => {
+		if (parts[key] === undefined) {
+			return undefined;
+		}
+		return sortedUnique(
+			parts[key].split(",").map(token => {
+				const value = Number(token);
+				if (!Number.isInteger(value) || value < min || value > max) {
+					invalid(rule, `${key} value "${token}" must be between ${min} and ${max}.`);
+				}
+				return value;
+			}),
+		);
+	};
+
+	for (const key of Object.keys(parts)) {
+		if (!["FREQ", "INTERVAL", "BYMINUTE", "BYHOUR", "BYDAY", "BYMONTHDAY", "BYMONTH", "WKST"].includes(key)) {
+			invalid(rule, `${key} is not supported.`);
+		}
+	}
+
+	const freq = parts.FREQ;
+	const interval = parts.INTERVAL === undefined ? 1 : Number(parts.INTERVAL);
+	if (!Number.isInteger(interval) || interval < 1) {
+		invalid(rule, "INTERVAL must be a positive integer.");
+	}
+	if (interval > 1 && freq !== "MINUTELY" && freq !== "HOURLY") {
+		invalid(rule, "INTERVAL is only supported with FREQ=MINUTELY or FREQ=HOURLY.");
+	}
+
+	const byMinute = numbers("BYMINUTE", 0, 59);
+	const byHour = numbers("BYHOUR", 0, 23);
+	const byMonthDay = numbers("BYMONTHDAY", -31, 31);
+	if (byMonthDay?.includes(0)) {
+		invalid(rule, "BYMONTHDAY cannot be 0.");
+	}
+	const byMonth = numbers("BYMONTH", 1, 12);
+	const byDay = parts.BYDAY?.split(",").map(token => {
+		const index = rruleWeekdayNames.indexOf(token);
+		if (index < 0) {
+			invalid(rule, `BYDAY value "${token}" is not supported. Use SU, MO, TU, WE, TH, FR, or SA.`);
+		}
+		return index;
+	});
+
+	// Without a start date, fields that are not given default to the start of the period.
+	let minutes = byMinute ?? [0];
+	let hours = byHour ?? [0];
+	let monthDays = byMonthDay;
+	let months = byMonth ?? range(1, 12);
+	switch (freq) {
+		case "MINUTELY":
+			minutes = byMinute ?? range(0, 59, interval);
+			hours = byHour ?? range(0, 23);
+			break;
+		case "HOURLY":
+			hours = byHour ?? range(0, 23, interval);
+			break;
+		case "DAILY":
+			break;
+		case "WEEKLY":
+			if (!byDay) {
+				invalid(rule, "FREQ=WEEKLY requires BYDAY.");
+			}
+			break;
+		case "MONTHLY":
+			monthDays = byMonthDay ?? (byDay ? undefined : [1]);
+			break;
+		case "YEARLY":
+			monthDays = byMonthDay ?? (byDay ? undefined : [1]);
+			months = byMonth ?? [1];
+			break;
+		default:
+			invalid(rule, "FREQ must be one of MINUTELY, HOURLY, DAILY, WEEKLY, MONTHLY, or YEARLY.");
+	}
+
+	return {
+		rule,
+		timeZone,
+		minutes,
+		hours,
+		monthDays,
+		weekdays: byDay ? sortedUnique(byDay) : undefined,
+		months,
+		dayMatch: "all",
+	};
+}
+
+/**
+ * Parse a recurrence rule. The rule may be:
+ * - A 5-field cron expression, e.g. "0 9 * * 1-5" (every weekday at 09:00)
+ *   or "*\/15 * * * *" (every 15 minutes on the quarter hour). "L" in the
+ *   day-of-month field means the last day of the month.
+ * - A cron macro: "@yearly", "@monthly", "@weekly", "@daily", or "@hourly".
+ * - An RRULE, with or without the "RRULE:" prefix, using FREQ, INTERVAL
+ *   (minutely and hourly only), BYMINUTE, BYHOUR, BYDAY, BYMONTHDAY, and
+ *   BYMONTH, e.g. "FREQ=MONTHLY;BYMONTHDAY=-1" (the last day of the month).
+ *
+ * @param rule
+ * @param timeZone An IANA time zone, e.g. "Europe/Paris". Defaults to the local time zone.
+ * @throws If the rule or time zone is invalid
+ */
+export function parseRecurrenceRule(rule: string, timeZone?: string): RecurrenceSchedule {
+	// Throws a RangeError for unknown time zones
+	getFormatter(timeZone);
+
+	const trimmed = rule.trim();
+	if (trimmed.startsWith("@")) {
+		const expression = cronMacros[trimmed.toLowerCase()];
+		if (!expression) {
+			invalid(rule, `Unknown macro. Use one of ${Object.keys(cronMacros).join(", ")}.`);
+		}
+		return parseCron(rule, expression, timeZone);
+	}
+	if (/(^|;|:)\s*FREQ\s*=/i.test(trimmed)) {
+		return parseRRule(rule, trimmed, timeZone);
+	}
+	return parseCron(rule, trimmed, timeZone);
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timeZone: string | undefined) {
+	const key = timeZone ?? "";
+	let formatter = formatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		formatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * The wall-clock time in the given time zone at the given instant,
+ * expressed as if that wall-clock time were UTC.
+ */
+function getWallTime(ms: number, timeZone: string | undefined) {
+	const fields: Record<string, number> = {};
+	for (const part of getFormatter(timeZone).formatToParts(ms)) {
+		if (part.type !== "literal") {
+			fields[part.type] = Number(part.value);
+		}
+	}
+	return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
+
+function getOffsetMs(ms: number, timeZone: string | undefined) {
+	return getWallTime(ms, timeZone) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Find the instants at which the given wall-clock time occurs in the time
+ * zone, in order. A wall-clock time occurs twice when clocks are turned
+ * back. A wall-clock time that is skipped, when clocks are turned forward,
+ * resolves to the moment of the transition.
+ */
+function wallTimeToInstants(wallMs: number, timeZone: string | undefined): number[] {
+	const offsetBefore = getOffsetMs(wallMs - DAY_MS, timeZone);
+	const offsetAfter = getOffsetMs(wallMs + DAY_MS, timeZone);
+	const candidates = [wallMs - offsetBefore, wallMs - offsetAfter].filter(
+		ms => getOffsetMs(ms, timeZone) === wallMs - ms,
+	);
+	if (candidates.length) {
+		return sortedUnique(candidates);
+	}
+
+	// Binary search for the transition, which lies between the two candidates.
+	let low = Math.min(wallMs - offsetBefore, wallMs - offsetAfter);
+	let high = Math.max(wallMs - offsetBefore, wallMs - offsetAfter);
+	while (high - low > 1000) {
+		const mid = Math.floor((low + high) / 2);
+		if (getOffsetMs(mid, timeZone) === offsetBefore) {
+			low = mid;
+		} else {
+			high = mid;
+		}
+	}
+	return [high];
+}
+
+function matchesDay(schedule: RecurrenceSchedule, year: number, month: number, day: number, weekday: number) {
+	if (!schedule.months.includes(month)) {
+		return false;
+	}
+	const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+	const monthDayMatches = schedule.monthDays?.some(d => (d > 0 ? d === day : daysInMonth + 1 + d === day));
+	const weekdayMatches = schedule.weekdays?.includes(weekday);
+	if (monthDayMatches === undefined) {
+		return weekdayMatches ?? true;
+	}
+	if (weekdayMatches === undefined) {
+		return monthDayMatches;
+	}
+	return schedule.dayMatch === "any" ? monthDayMatches || weekdayMatches : monthDayMatches && weekdayMatches;
+}
+
+/**
+ * Find the first occurrence of a recurrence rule strictly after the given
+ * date/time.
+ *
+ * When clocks are turned back and an hour repeats, rules that run every hour,
+ * such as "*\/15 * * * *", occur in both copies of the hour so that they keep
+ * their interval. Other rules occur only in the first copy, so that e.g. a
+ * daily rule at 01:30 runs once. Wall-clock times skipped when clocks are
+ * turned forward occur at the moment of the transition.
+ * @param rule A rule as accepted by `parseRecurrenceRule`, or a parsed schedule
+ * @param after
+ * @param timeZone The time zone to use if `rule` is a string
+ * @returns The occurrence as a Unix timestamp in milliseconds, or undefined if
+ * the rule never occurs, e.g. "0 0 30 2 *"
+ */
+export function nextOccurrence(
+	rule: string | RecurrenceSchedule,
+	after: Date | number,
+	timeZone?: string,
+): number | undefined {
+	const schedule = typeof rule === "string" ? parseRecurrenceRule(rule, timeZone) : rule;
+	const afterMs = typeof after === "number" ? after : after.getTime();
+	const start = new Date(getWallTime(afterMs, schedule.timeZone));
+	const startMinuteOfDay = start.getUTCHours() * 60 + start.getUTCMinutes();
+	const runsEveryHour = schedule.hours.length === 24;
+
+	for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+		const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + i));
+		const year = date.getUTCFullYear();
+		const month = date.getUTCMonth() + 1;
+		const day = date.getUTCDate();
+		if (!matchesDay(schedule, year, month, day, date.getUTCDay())) {
+			continue;
+		}
+		// The earliest occurrence found in the second copy of a repeated hour
+		let repeatedOccurrence: number | undefined;
+		for (const hour of schedule.hours) {
+			for (const minute of schedule.minutes) {
+				// On the first day, skip times that are well in the past. The margin
+				// covers wall-clock times that shift with a daylight saving transition.
+				if (i === 0 && hour * 60 + minute < startMinuteOfDay - 180) {
+					continue;
+				}
+				const [occurrence, repeated] = wallTimeToInstants(
+					Date.UTC(year, month - 1, day, hour, minute),
+					schedule.timeZone,
+				);
+				if (occurrence > afterMs) {
+					return Math.min(occurrence, repeatedOccurrence ?? occurrence);
+				}
+				if (runsEveryHour && repeated !== undefined && repeated > afterMs) {
+					repeatedOccurrence ??= repeated;
+				}
+			}
+		}
+		if (repeatedOccurrence !== undefined) {
+			return repeatedOccurrence;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,110 @@
+import { ChessClock } from "./chess-clock";
+import { replay, TimerReplay } from "./replay";
+import { SuperTimer, TimerEvent, VirtualClock } from "./super-timer";
+
+describe("TimerReplay", () => {
+	let clock: VirtualClock;
+	let history: TimerEvent[];
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date("2024-01-01T00:00:00Z") });
+		const recorded = new SuperTimer({ shims: clock });
+		recorded.start();
+		clock.advanceBy(1000);
+		recorded.addTime(5000);
+		clock.advanceBy(1000);
+		recorded.setSpeedMultiplier(2);
+		clock.advanceBy(1000);
+		recorded.pause();
+		clock.advanceBy(5000);
+		recorded.unpause();
+		clock.advanceBy(1000);
+		recorded.pause();
+		history = recorded.getHistory();
+		recorded.dispose();
+	});
+
+	it("replays the recorded pauses, adjustments and speed changes", () => {
+		const playback = replay(history, { timerOptions: { shims: clock } });
+		const timer = playback.getTimer();
+		clock.advanceBy(1500);
+		expect(timer.getElapsedMs()).toBe(6500);
+		clock.advanceBy(6500);
+		expect(timer.isPaused()).toBe(false);
+		expect(timer.getSpeedMultiplier()).toBe(2);
+		clock.advanceBy(1000);
+		expect(playback.isDone()).toBe(true);
+		expect(timer.isPaused()).toBe(true);
+		expect(timer.getElapsedMs()).toBe(11000);
+		playback.dispose();
+	});
+
+	it("plays back at the given speed and can be paused", () => {
+		const playback = new TimerReplay(history, { speed: 3, autoStart: false, timerOptions: { shims: clock } });
+		clock.advanceBy(1000);
+		expect(playback.getTimer().getElapsedMs()).toBe(0);
+		playback.play();
+		clock.advanceBy(1000);
+		playback.pause();
+		clock.advanceBy(10000);
+		expect(playback.getTimer().getElapsedMs()).toBe(3000 + 5000 + 1000);
+		playback.play();
+		clock.advanceBy(2000);
+		expect(playback.isDone()).toBe(true);
+		playback.dispose();
+	});
+
+	it("calls onEvent for each replayed event", () => {
+		const events: string[] = [];
+		const playback = replay(history, {
+			timerOptions: { shims: clock },
+			onEvent: event => events.push(event.event),
+		});
+		clock.advanceBy(9000);
+		expect(events).toEqual(history.map(e => e.event));
+		playback.dispose();
+	});
+
+	it("accepts histories serialized as JSON", () => {
+		const playback = replay(JSON.parse(JSON.stringify(history)), { timerOptions: { shims: clock } });
+		clock.advanceBy(9000);
+		expect(playback.getTimer().getElapsedMs()).toBe(11000);
+		playback.dispose();
+	});
+
+	it("does not put replayed adjustments on the undo stack", () => {
+		const playback = replay(history, { timerOptions: { shims: clock } });
+		clock.advanceBy(9000);
+		expect(playback.getTimer().canUndo()).toBe(false);
+		playback.dispose();
+	});
+
+	it("leaves no callbacks behind", () => {
+		const playback = replay(history, { timerOptions: { shims: clock } });
+		clock.advanceBy(9000);
+		playback.dispose();
+		expect(clock.getPendingCount()).toBe(0);
+	});
+});
+
+describe("undo in a chess clock", () => {
+	it("skips over increments", () => {
+		const clock = new VirtualClock();
+		const chessClock = new ChessClock(
+			[
+				{ name: "white", timeMs: 60000 },
+				{ name: "black", timeMs: 60000 },
+			],
+			{ increment: { mode: "fischer", ms: 2000 }, timerOptions: { shims: clock } },
+		);
+		chessClock.start();
+		clock.advanceBy(5000);
+		chessClock.switchTurn();
+		const white = chessClock.getCountdown("white");
+		expect(white.canUndo()).toBe(false);
+		white.addTime(10000);
+		white.undo();
+		expect(white.getTimeRemaining()).toBe(57000);
+		chessClock.dispose();
+	});
+});
@@ -0,0 +1,189 @@
+import {
+	SuperTimer,
+	SuperTimerOptions,
+	TimerEvent,
+	TimerEventSnapshot,
+	TimerHistory,
+	upgradeTimerEvents,
+} from "./super-timer.js";
+
+export interface TimerReplayOptions {
+	/**
+	 * How fast the recorded timeline plays back, e.g. 2 replays a
+	 * ten minute game in five minutes.
+	 *
+	 * @default 1
+	 */
+	speed?: number;
+
+	/**
+	 * Callback to execute as each recorded event is replayed.
+	 */
+	onEvent?: (event: TimerEvent, timer: SuperTimer) => void;
+
+	/**
+	 * Whether to start playing immediately.
+	 *
+	 * @default true
+	 */
+	autoStart?: boolean;
+
+	/**
+	 * Options for the rebuilt timer, e.g. its name or shims.
+	 */
+	timerOptions?: Omit<SuperTimerOptions, "parent" | "timerSpeedMultiplier">;
+}
+
+let replayId = 1;
+
+/**
+ * Plays back a recorded timer history on a new timer, honoring the
+ * recorded pauses, time adjustments, and speed changes. The original
+ * wall clock gaps between events are kept, scaled by the replay speed.
+ *
+ * @example
+ * const review = new TimerReplay(gameTimer.getHistory(), { speed: 4 });
+ * review.getTimer().registerCallbacks([...]);
+ */
+export class TimerReplay {
+	private events: TimerEvent[];
+	private playback: SuperTimer;
+	private timer: SuperTimer;
+	private onEvent: TimerReplayOptions["onEvent"];
+	private nextIndex: number = 0;
+	private callbackName: string;
+
+	constructor(history: TimerHistory | (TimerEvent | TimerEventSnapshot)[], options: TimerReplayOptions = {}) {
+		const events = Array.isArray(history) ? history : history.events;
+		// Histories recorded by earlier versions store some data as strings or numbers
+		this.events = upgradeTimerEvents(events.map(event => ({ ...event, date: new Date(event.date) })));
+		this.onEvent = options.onEvent;
+		this.callbackName = `!replay-${replayId++}`;
+
+		// The playback timer keeps time in the original timeline. The replayed
+		// timer follows its pauses and speed, on top of the recorded ones.
+		const { name = "replay", ...timerOptions } = options.timerOptions ?? {};
+		this.playback = new SuperTimer({
+			...timerOptions,
+			name: `${name}-playback`,
+			timerSpeedMultiplier: options.speed ?? 1,
+		});
+
+		const firstSpeedChange = this.events.find(event => event.event === "setSpeed");
+		this.timer = new SuperTimer({
+			...timerOptions,
+			name,
+			timerSpeedMultiplier: firstSpeedChange?.event === "setSpeed" ? firstSpeedChange.data.fromSpeed : 1,
+			parent: { timer: this.playback },
+		});
+		if (this.events.length > 0 && this.events[0].elapsedMs !== 0) {
+			this.timer.withoutUndo(() => this.timer.setTime(this.events[0].elapsedMs, true));
+		}
+
+		this.scheduleNext();
+		if (options.autoStart ?? true) {
+			this.play();
+		}
+	}
+
+	/**
+	 * Gets the timer the history is replayed on.
+	 */
+	public getTimer(): SuperTimer {
+		return this.timer;
+	}
+
+	public play() {
+		// Replay any events that were due when playback was paused, since a
+		// checkpoint at exactly the paused time does not run on unpause
+		this.scheduleNext();
+		this.playback.unpause();
+	}
+
+	/**
+	 * Pause playback. The replayed timer is paused along with it.
+	 */
+	public pause() {
+		this.playback.pause();
+	}
+
+	/**
+	 * Whether every recorded event has been replayed.
+	 */
+	public isDone() {
+		return this.nextIndex >= this.events.length;
+	}
+
+	/**
+	 * Cancels all outstanding timeouts/intervals, including those of the
+	 * replayed timer.
+	 */
+	public dispose() {
+		this.timer.dispose();
+		this.playback.dispose();
+	}
+
+	// Events are scheduled one at a time, through a single callback, so that
+	// events recorded at the same moment are replayed in order.
+	private scheduleNext() {
+		if (this.playback.isDisposed()) {
+			return;
+		}
+		this.playback.removeCallbacks([this.callbackName]);
+		const startedAt = this.events[0]?.date.getTime();
+		const playbackMs = this.playback.getElapsedMs();
+		while (!this.isDone() && this.events[this.nextIndex].date.getTime() - startedAt <= playbackMs) {
+			this.replayEvent(this.events[this.nextIndex++]);
+		}
+		if (this.isDone()) {
+			return;
+		}
+		this.playback.registerCallbacks([
+			{
+				type: "checkpoint",
+				timeMs: this.events[this.nextIndex].date.getTime() - startedAt,
+				name: this.callbackName,
+				callback: () => this.scheduleNext(),
+			},
+		]);
+	}
+
+	private replayEvent(event: TimerEvent) {
+		// Only adjustments the user makes to the replayed timer can be undone
+		this.timer.withoutUndo(() => {
+			switch (event.event) {
+				case "unpause":
+					this.timer.unpause();
+					break;
+				case "pause":
+					this.timer.pause();
+					break;
+				case "setTime":
+					this.timer.setTime(event.data.toMs, true);
+					break;
+				case "addTime":
+					this.timer.addTime(event.data.deltaMs, true);
+					break;
+				case "setSpeed":
+					this.timer.setSpeedMultiplier(event.data.toSpeed);
+					break;
+				case "reset":
+					this.timer.reset();
+					break;
+			}
+		});
+		this.onEvent?.(event, this.timer);
+	}
+}
+
+/**
+ * Replay a recorded timer history on a new timer. See `TimerReplay`.
+ * @param history A timer history, e.g. from `getHistory` or a snapshot
+ * @param options
+ */
+export function replay(
+	history: TimerHistory | (TimerEvent | TimerEventSnapshot)[],
+	options: TimerReplayOptions = {},
+): TimerReplay {
+	return new TimerReplay(history, options);
+}
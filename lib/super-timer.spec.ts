@@ -1,7 +1,1192 @@
-import { SuperTimer } from "./super-timer";
+import {
+	SuperCountdown,
+	SuperSequence,
+	SuperStopwatch,
+	SuperTimer,
+	TimerEventSnapshot,
+	upgradeTimerEvents,
+	VirtualClock,
+} from "./super-timer";
 
-// describe("timeUtils", () => {
-// 	it("should work", () => {
-// 		expect(timeUtils()).toEqual("super-timer");
-// 	});
-// });
+describe("SuperTimer", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("uses the injected shims", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(1000);
+		expect(timer.getElapsedMs()).toBe(1000);
+		timer.pause();
+		clock.advanceBy(1000);
+		expect(timer.getElapsedMs()).toBe(1000);
+		timer.dispose();
+	});
+
+	it("runs checkpoints registered in the constructor on the virtual clock", () => {
+		const callback = jest.fn();
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [{ type: "checkpoint", timeMs: 500, callback }],
+		});
+		timer.start();
+		clock.advanceBy(499);
+		expect(callback).not.toHaveBeenCalled();
+		clock.advanceBy(1);
+		expect(callback).toHaveBeenCalledTimes(1);
+		timer.dispose();
+	});
+
+	it("honors the speed multiplier", () => {
+		const timer = new SuperTimer({ shims: clock, timerSpeedMultiplier: 2 });
+		timer.start();
+		clock.advanceBy(1000);
+		expect(timer.getElapsedMs()).toBe(2000);
+		timer.dispose();
+	});
+
+	it("starts running and reports when pause takes effect", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		expect(timer.isPaused()).toBe(false);
+		expect(timer.pause()).toBe(true);
+		timer.dispose();
+	});
+});
+
+describe("snapshot and restore", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("accounts for the time a running timer was stored", () => {
+		const timer = new SuperTimer({ name: "stored", shims: clock });
+		timer.start();
+		clock.advanceBy(1000);
+		const json = JSON.stringify(timer);
+		timer.dispose();
+
+		clock.sleep(5000);
+		const restored = SuperTimer.restore(json, { shims: clock });
+		expect(restored.getName()).toBe("stored");
+		expect(restored.isPaused()).toBe(false);
+		expect(restored.getElapsedMs()).toBe(6000);
+		restored.dispose();
+	});
+
+	it("restores a paused timer where it was paused", () => {
+		const timer = new SuperTimer({ shims: clock, timerSpeedMultiplier: 2 });
+		timer.start();
+		clock.advanceBy(1000);
+		timer.pause();
+		const snapshot = timer.snapshot();
+		timer.dispose();
+
+		clock.sleep(5000);
+		const restored = SuperTimer.restore(snapshot, { shims: clock });
+		expect(restored.isPaused()).toBe(true);
+		expect(restored.getElapsedMs()).toBe(2000);
+		expect(restored.getSpeedMultiplier()).toBe(2);
+		expect(restored.getHistory().map(e => e.event)).toEqual(["unpause", "pause"]);
+		restored.dispose();
+	});
+
+	it("rebinds callbacks by name and runs those due while stored", () => {
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [{ type: "checkpoint", timeMs: 3000, name: "halfway", callback: () => {} }],
+		});
+		timer.start();
+		clock.advanceBy(1000);
+		const snapshot = timer.snapshot();
+		timer.dispose();
+
+		clock.sleep(5000);
+		const halfway = jest.fn();
+		const restored = SuperTimer.restore(snapshot, { shims: clock, callbacks: { halfway } });
+		expect(halfway).toHaveBeenCalledTimes(1);
+		restored.dispose();
+	});
+
+	it("restores a countdown with its completion time", () => {
+		const countdown = new SuperCountdown(10000, undefined, { shims: clock });
+		countdown.start();
+		clock.advanceBy(4000);
+		const snapshot = countdown.snapshot();
+		countdown.dispose();
+
+		const onComplete = jest.fn();
+		const restored = SuperCountdown.restore(snapshot, { shims: clock, onComplete });
+		expect(restored.getTimeRemaining()).toBe(6000);
+		clock.advanceBy(6000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		restored.dispose();
+	});
+
+	it("refuses to restore a countdown from a plain timer snapshot", () => {
+		const timer = new SuperTimer({ name: "plain", shims: clock });
+		expect(() => SuperCountdown.restore(timer.snapshot())).toThrow(
+			'Snapshot of timer "plain" is not a countdown snapshot.',
+		);
+		timer.dispose();
+	});
+});
+
+describe("SuperStopwatch", () => {
+	let clock: VirtualClock;
+	let stopwatch: SuperStopwatch;
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date("2024-01-01T00:00:00Z") });
+		stopwatch = new SuperStopwatch({ shims: clock });
+		stopwatch.start();
+	});
+
+	afterEach(() => {
+		stopwatch.dispose();
+	});
+
+	it("records laps and flags the fastest and slowest", () => {
+		clock.advanceBy(1000);
+		stopwatch.lap("first");
+		clock.advanceBy(3000);
+		stopwatch.lap();
+		clock.advanceBy(2000);
+		const third = stopwatch.lap();
+
+		expect(third).toMatchObject({ lapNumber: 3, durationMs: 2000, cumulativeMs: 6000 });
+		expect(third.date.toISOString()).toBe("2024-01-01T00:00:06.000Z");
+		expect(stopwatch.getLaps().map(l => [l.label, l.durationMs, l.isFastest, l.isSlowest])).toEqual([
+			["first", 1000, true, false],
+			[undefined, 3000, false, true],
+			[undefined, 2000, false, false],
+		]);
+		expect(stopwatch.getHistory({ types: ["lap"] })).toHaveLength(3);
+	});
+
+	it("does not flag a single lap", () => {
+		clock.advanceBy(1000);
+		expect(stopwatch.lap()).toMatchObject({ isFastest: false, isSlowest: false });
+	});
+
+	it("reads the lap in progress with split", () => {
+		clock.advanceBy(1000);
+		stopwatch.lap();
+		clock.advanceBy(500);
+		expect(stopwatch.split()).toEqual({ lapNumber: 2, lapMs: 500, cumulativeMs: 1500 });
+		expect(stopwatch.getLaps()).toHaveLength(1);
+	});
+
+	it("applies time adjustments to the lap in progress only", () => {
+		clock.advanceBy(2000);
+		stopwatch.lap();
+		stopwatch.addTime(-1500);
+		expect(stopwatch.split()).toEqual({ lapNumber: 2, lapMs: 0, cumulativeMs: 500 });
+		expect(stopwatch.getLaps()[0].durationMs).toBe(2000);
+	});
+
+	it("discards laps on reset and resetLaps", () => {
+		clock.advanceBy(1000);
+		stopwatch.lap();
+		clock.advanceBy(1000);
+		stopwatch.resetLaps();
+		expect(stopwatch.getLaps()).toEqual([]);
+		expect(stopwatch.split()).toEqual({ lapNumber: 1, lapMs: 0, cumulativeMs: 2000 });
+
+		stopwatch.lap();
+		stopwatch.reset();
+		expect(stopwatch.getLaps()).toEqual([]);
+		expect(stopwatch.split()).toEqual({ lapNumber: 1, lapMs: 0, cumulativeMs: 0 });
+	});
+});
+
+describe("event listeners", () => {
+	let clock: VirtualClock;
+	let timer: SuperTimer;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		timer = new SuperTimer({ shims: clock });
+	});
+
+	afterEach(() => {
+		timer.dispose();
+	});
+
+	it("calls listeners with the event and the timer", () => {
+		const listener = jest.fn();
+		timer.on("pause", listener);
+		timer.start();
+		clock.advanceBy(1000);
+		timer.pause();
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith(expect.objectContaining({ event: "pause", elapsedMs: 1000 }), timer);
+	});
+
+	it("calls once listeners only once", () => {
+		const listener = jest.fn();
+		timer.once("unpause", listener);
+		timer.start();
+		timer.pause();
+		timer.unpause();
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("removes listeners with off and the returned function", () => {
+		const offListener = jest.fn();
+		const unsubscribedListener = jest.fn();
+		timer.on("addTime", offListener);
+		const unsubscribe = timer.on("addTime", unsubscribedListener);
+		timer.off("addTime", offListener);
+		unsubscribe();
+		timer.addTime(1000);
+		expect(offListener).not.toHaveBeenCalled();
+		expect(unsubscribedListener).not.toHaveBeenCalled();
+	});
+
+	it("notifies listeners of events the history does not retain", () => {
+		const retaining = new SuperTimer({ shims: clock, historyRetention: { eventTypes: ["pause"] } });
+		const listener = jest.fn();
+		retaining.on("unpause", listener);
+		retaining.start();
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(retaining.getHistory()).toEqual([]);
+		retaining.dispose();
+	});
+
+	it("removes all listeners on dispose", () => {
+		const listener = jest.fn();
+		timer.on("pause", listener);
+		timer.start();
+		timer.dispose();
+		expect(listener).not.toHaveBeenCalled();
+		expect(() => timer.on("pause", listener)).toThrow();
+	});
+});
+
+describe("SuperSequence", () => {
+	let clock: VirtualClock;
+	let sequence: SuperSequence;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		sequence = new SuperSequence(
+			[
+				{ name: "work", durationMs: 3000 },
+				{ name: "rest", durationMs: 1000 },
+			],
+			{ shims: clock, repeat: 2 },
+		);
+	});
+
+	afterEach(() => {
+		sequence.dispose();
+	});
+
+	it("expands repeated phases", () => {
+		expect(sequence.getPhases().map(p => [p.name, p.round, p.startMs, p.endMs])).toEqual([
+			["work", 1, 0, 3000],
+			["rest", 1, 3000, 4000],
+			["work", 2, 4000, 7000],
+			["rest", 2, 7000, 8000],
+		]);
+	});
+
+	it("moves through the phases and completes", () => {
+		const onPhaseChange = jest.fn();
+		const onComplete = jest.fn();
+		sequence.onPhaseChange(onPhaseChange);
+		sequence.registerCompleteCallback(onComplete);
+		sequence.start();
+
+		clock.advanceBy(3500);
+		expect(sequence.getCurrentPhase()).toMatchObject({ name: "rest", index: 1 });
+		expect(sequence.getPhaseTimeRemaining()).toBe(500);
+		expect(sequence.getTotalTimeRemaining()).toBe(4500);
+
+		clock.advanceBy(10000);
+		expect(onPhaseChange.mock.calls.map(([phase, previous]) => [previous.index, phase.index])).toEqual([
+			[0, 1],
+			[1, 2],
+			[2, 3],
+		]);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(sequence.isDone()).toBe(true);
+		expect(sequence.isPaused()).toBe(true);
+		expect(sequence.getElapsedMs()).toBe(8000);
+	});
+
+	it("does not run again once done", () => {
+		sequence.start();
+		clock.advanceBy(8000);
+		sequence.unpause();
+		expect(sequence.isPaused()).toBe(true);
+	});
+
+	it("skips forward and back between phases", () => {
+		const onComplete = jest.fn();
+		sequence.registerCompleteCallback(onComplete);
+		sequence.start();
+		clock.advanceBy(1000);
+
+		sequence.skipPhase();
+		expect(sequence.getCurrentPhase().index).toBe(1);
+		expect(sequence.getElapsedMs()).toBe(3000);
+
+		sequence.previousPhase();
+		expect(sequence.getCurrentPhase().index).toBe(0);
+		expect(sequence.getElapsedMs()).toBe(0);
+
+		sequence.skipPhase();
+		sequence.skipPhase();
+		sequence.skipPhase();
+		sequence.skipPhase();
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(sequence.isDone()).toBe(true);
+	});
+
+	it("returns to the first phase on reset", () => {
+		sequence.start();
+		clock.advanceBy(5000);
+		sequence.reset();
+		expect(sequence.getCurrentPhase().index).toBe(0);
+		expect(
+			sequence.getHistory({ types: ["phaseChange"] }).map(e => e.event === "phaseChange" && e.data.index),
+		).toEqual([1, 2, 0]);
+	});
+
+	it("requires at least one phase", () => {
+		expect(() => new SuperSequence([], { name: "empty", shims: clock })).toThrow(
+			'Sequence "empty" must have at least one phase.',
+		);
+	});
+});
+
+describe("history retention", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date("2024-01-01T00:00:00Z") });
+	});
+
+	it("keeps at most maxEvents events", () => {
+		const timer = new SuperTimer({ shims: clock, historyRetention: { maxEvents: 2 } });
+		timer.start();
+		timer.pause();
+		timer.unpause();
+		expect(timer.getHistory().map(e => e.event)).toEqual(["pause", "unpause"]);
+		timer.dispose();
+	});
+
+	it("discards events older than maxAgeMs", () => {
+		const timer = new SuperTimer({ shims: clock, historyRetention: { maxAgeMs: 1000 } });
+		timer.start();
+		clock.advanceBy(2000);
+		timer.pause();
+		expect(timer.getHistory().map(e => e.event)).toEqual(["pause"]);
+		timer.dispose();
+	});
+
+	it("discards events older than maxAgeMs when the history is read", () => {
+		const timer = new SuperTimer({ shims: clock, historyRetention: { maxAgeMs: 1000 } });
+		timer.start();
+		timer.pause();
+		clock.advanceBy(2000);
+		expect(timer.getHistory()).toEqual([]);
+		expect(timer.getState().history.events).toEqual([]);
+		timer.dispose();
+	});
+
+	it("keeps only the given event types", () => {
+		const timer = new SuperTimer({ shims: clock, historyRetention: { eventTypes: ["addTime"] } });
+		timer.start();
+		timer.addTime(1000);
+		expect(timer.getHistory().map(e => e.event)).toEqual(["addTime"]);
+		timer.dispose();
+	});
+
+	it("filters the history by date, type and count", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(1000);
+		timer.pause();
+		clock.advanceBy(1000);
+		timer.unpause();
+		clock.advanceBy(1000);
+		timer.pause();
+
+		expect(timer.getHistory({ types: ["pause"] }).map(e => e.elapsedMs)).toEqual([1000, 2000]);
+		expect(timer.getHistory({ since: new Date("2024-01-01T00:00:02Z") }).map(e => e.event)).toEqual([
+			"unpause",
+			"pause",
+		]);
+		expect(timer.getHistory({ limit: 1 }).map(e => e.elapsedMs)).toEqual([2000]);
+		expect(timer.getHistory({ limit: 0 })).toEqual([]);
+		timer.dispose();
+	});
+
+	it("returns copies of the events", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		timer.getHistory()[0].elapsedMs = 1234;
+		expect(timer.getHistory()[0].elapsedMs).toBe(0);
+		timer.dispose();
+	});
+});
+
+describe("logExecutions", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("logs executions of callbacks that opt in", () => {
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [
+				{ type: "tick", timeMs: 1000, name: "logged", logExecutions: true, callback: () => {} },
+				{ type: "tick", timeMs: 1000, name: "quiet", callback: () => {} },
+			],
+		});
+		timer.start();
+		clock.advanceBy(2000);
+		expect(timer.getHistory({ types: ["tick"] }).map(e => e.data)).toEqual([
+			{ callbackName: "logged", scheduledMs: 1000, actualMs: 1000, latenessMs: 0 },
+			{ callbackName: "logged", scheduledMs: 2000, actualMs: 2000, latenessMs: 0 },
+		]);
+		timer.dispose();
+	});
+
+	it("records how late a checkpoint passed by a time adjustment ran", () => {
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [{ type: "checkpoint", timeMs: 1000, name: "skipped", logExecutions: true, callback: () => {} }],
+		});
+		timer.start();
+		clock.advanceBy(500);
+		timer.addTime(1000);
+		expect(timer.getHistory({ types: ["checkpoint"] }).map(e => e.data)).toEqual([
+			{ callbackName: "skipped", scheduledMs: 1000, actualMs: 1500, latenessMs: 500 },
+		]);
+		timer.dispose();
+	});
+});
+
+describe("reset", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("returns to zero, paused, and logs the previous elapsed time", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(1500);
+		timer.reset();
+		expect(timer.getElapsedMs()).toBe(0);
+		expect(timer.isPaused()).toBe(true);
+		expect(timer.getHistory({ types: ["reset"] }).map(e => e.data)).toEqual([{ previousElapsedMs: 1500 }]);
+		timer.dispose();
+	});
+
+	it("re-arms checkpoint-once callbacks that already ran", () => {
+		const callback = jest.fn();
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [{ type: "checkpoint-once", timeMs: 1000, callback }],
+		});
+		timer.start();
+		clock.advanceBy(1000);
+		timer.reset({ autoStart: true });
+		expect(timer.isPaused()).toBe(false);
+		clock.advanceBy(1000);
+		expect(callback).toHaveBeenCalledTimes(2);
+		timer.dispose();
+	});
+
+	it("restarts tick schedules from zero", () => {
+		const callback = jest.fn();
+		const timer = new SuperTimer({ shims: clock, callbacks: [{ type: "tick", timeMs: 1000, callback }] });
+		timer.start();
+		clock.advanceBy(1500);
+		timer.reset({ autoStart: true });
+		clock.advanceBy(999);
+		expect(callback).toHaveBeenCalledTimes(1);
+		clock.advanceBy(1);
+		expect(callback).toHaveBeenCalledTimes(2);
+		timer.dispose();
+	});
+
+	it("can drop callbacks and history", () => {
+		const callback = jest.fn();
+		const timer = new SuperTimer({ shims: clock, callbacks: [{ type: "checkpoint", timeMs: 1000, callback }] });
+		timer.start();
+		timer.reset({ keepCallbacks: false, keepHistory: false, autoStart: true });
+		clock.advanceBy(1000);
+		expect(callback).not.toHaveBeenCalled();
+		expect(timer.getHistory().map(e => e.event)).toEqual(["reset", "unpause"]);
+		timer.dispose();
+	});
+
+	it("restores the full duration of a countdown", () => {
+		const countdown = new SuperCountdown(5000, undefined, { shims: clock });
+		countdown.start();
+		clock.advanceBy(5000);
+		expect(countdown.isDone()).toBe(true);
+		countdown.reset();
+		expect(countdown.getTimeRemaining()).toBe(5000);
+		expect(countdown.isDone()).toBe(false);
+		countdown.dispose();
+	});
+});
+
+describe("SuperCountdown overtime", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("stops at zero by default", () => {
+		const onComplete = jest.fn();
+		const countdown = new SuperCountdown(1000, onComplete, { shims: clock });
+		countdown.start();
+		clock.advanceBy(3000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(countdown.getTimeRemaining()).toBe(0);
+		expect(countdown.isPaused()).toBe(true);
+		expect(countdown.isOvertime()).toBe(false);
+		countdown.dispose();
+	});
+
+	it("keeps running past zero in overtime mode", () => {
+		const onComplete = jest.fn();
+		const countdown = new SuperCountdown(1000, onComplete, { shims: clock, overtime: true });
+		countdown.start();
+		clock.advanceBy(1000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(countdown.isOvertime()).toBe(false);
+
+		clock.advanceBy(2000);
+		expect(countdown.getTimeRemaining()).toBe(-2000);
+		expect(countdown.isDone()).toBe(true);
+		expect(countdown.isOvertime()).toBe(true);
+		expect(countdown.isPaused()).toBe(false);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		countdown.dispose();
+	});
+
+	it("can be unpaused after completing in overtime mode", () => {
+		const countdown = new SuperCountdown(1000, undefined, { shims: clock, overtime: true });
+		countdown.start();
+		clock.advanceBy(2000);
+		countdown.pause();
+		countdown.unpause();
+		expect(countdown.isPaused()).toBe(false);
+		countdown.dispose();
+	});
+
+	it("runs checkpoints given relative to the time remaining, including in overtime", () => {
+		const calls: number[] = [];
+		const countdown = new SuperCountdown(10000, undefined, {
+			shims: clock,
+			overtime: true,
+			callbacks: [
+				{ type: "checkpoint", remainingMs: 3000, callback: timer => calls.push(timer.getTimeRemaining()) },
+				{ type: "checkpoint", remainingMs: -5000, callback: timer => calls.push(timer.getTimeRemaining()) },
+			],
+		});
+		countdown.start();
+		clock.advanceBy(20000);
+		expect(calls).toEqual([3000, -5000]);
+		countdown.dispose();
+	});
+});
+
+describe("SuperCountdown remaining-time checkpoints", () => {
+	let clock: VirtualClock;
+	let countdown: SuperCountdown;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		countdown = new SuperCountdown(10000, undefined, { shims: clock });
+	});
+
+	afterEach(() => {
+		countdown.dispose();
+	});
+
+	it("stay anchored to the end when time is added", () => {
+		const calls: number[] = [];
+		countdown.registerCallbacks([
+			{ type: "checkpoint", remainingMs: 2000, callback: timer => calls.push(timer.getTimeRemaining()) },
+		]);
+		countdown.start();
+		clock.advanceBy(5000);
+		countdown.addTime(5000);
+		clock.advanceBy(7999);
+		expect(calls).toEqual([]);
+		clock.advanceBy(1);
+		expect(calls).toEqual([2000]);
+	});
+
+	it("run when a time adjustment passes them", () => {
+		const callback = jest.fn();
+		countdown.registerCallbacks([{ type: "checkpoint", remainingMs: 2000, callback }]);
+		countdown.start();
+		countdown.setTimeRemaining(1000);
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("registerWarnings runs the callback with each amount remaining", () => {
+		const warnings: number[] = [];
+		const names = countdown.registerWarnings([5000, 1000], (timer, remainingMs) => warnings.push(remainingMs));
+		countdown.start();
+		clock.advanceBy(8500);
+		expect(warnings).toEqual([5000]);
+		clock.advanceBy(500);
+		expect(warnings).toEqual([5000, 1000]);
+		expect(names).toHaveLength(2);
+	});
+
+	it("registerWarnings returns names that can be removed", () => {
+		const callback = jest.fn();
+		const [fiveSeconds] = countdown.registerWarnings([5000, 1000], callback);
+		countdown.removeCallbacks([fiveSeconds]);
+		countdown.start();
+		clock.advanceBy(10000);
+		expect(callback.mock.calls.map(([, remainingMs]) => remainingMs)).toEqual([1000]);
+	});
+});
+
+describe("SuperCountdown duration changes", () => {
+	let clock: VirtualClock;
+	let onComplete: jest.Mock;
+	let countdown: SuperCountdown;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		onComplete = jest.fn();
+		countdown = new SuperCountdown(10000, onComplete, { shims: clock });
+	});
+
+	afterEach(() => {
+		countdown.dispose();
+	});
+
+	it("moves completion without changing the elapsed time", () => {
+		countdown.start();
+		clock.advanceBy(4000);
+		countdown.extendBy(5000);
+		expect(countdown.getDuration()).toBe(15000);
+		expect(countdown.getElapsedMs()).toBe(4000);
+		expect(countdown.getTimeRemaining()).toBe(11000);
+		clock.advanceBy(10999);
+		expect(onComplete).not.toHaveBeenCalled();
+		clock.advanceBy(1);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(countdown.getHistory({ types: ["setDuration"] }).map(e => e.data)).toEqual([
+			{ previousDurationMs: 10000, durationMs: 15000 },
+		]);
+	});
+
+	it("moves remaining-time checkpoints but not elapsed-time checkpoints", () => {
+		const calls: string[] = [];
+		countdown.registerCallbacks([
+			{ type: "checkpoint", timeMs: 3000, callback: () => calls.push(`elapsed@${clock.now()}`) },
+			{ type: "checkpoint", remainingMs: 1000, callback: () => calls.push(`remaining@${clock.now()}`) },
+		]);
+		countdown.start();
+		countdown.setDuration(5000);
+		clock.advanceBy(5000);
+		expect(calls).toEqual(["elapsed@3000", "remaining@4000"]);
+	});
+
+	it("completes immediately when shortened past the elapsed time", () => {
+		countdown.start();
+		clock.advanceBy(4000);
+		countdown.setDuration(3000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(countdown.isDone()).toBe(true);
+		expect(countdown.isPaused()).toBe(true);
+	});
+
+	it("can be started again once extended after completing", () => {
+		countdown.start();
+		clock.advanceBy(10000);
+		countdown.extendBy(2000);
+		expect(countdown.isDone()).toBe(false);
+		countdown.unpause();
+		clock.advanceBy(2000);
+		expect(onComplete).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("SuperCountdown.until", () => {
+	const start = new Date("2024-01-01T00:00:00Z").getTime();
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock({ startDate: new Date(start) });
+	});
+
+	it("completes at the target date", () => {
+		const onComplete = jest.fn();
+		const countdown = SuperCountdown.until(new Date(start + 60000), onComplete, { shims: clock });
+		expect(countdown.isPaused()).toBe(false);
+		expect(countdown.getTimeRemaining()).toBe(60000);
+		clock.advanceBy(60000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		countdown.dispose();
+	});
+
+	it("is created done if the date has passed", () => {
+		const onComplete = jest.fn();
+		const countdown = SuperCountdown.until(start - 1000, onComplete, { shims: clock });
+		expect(countdown.isDone()).toBe(true);
+		expect(onComplete).not.toHaveBeenCalled();
+		countdown.dispose();
+	});
+
+	it("corrects itself when the wall clock jumps", () => {
+		const countdown = SuperCountdown.until(start + 60000, undefined, { shims: clock });
+		clock.setSystemTime(start + 30000);
+		clock.advanceBy(1000);
+		expect(countdown.getTimeRemaining()).toBe(29000);
+		expect(countdown.getHistory({ types: ["resync"] })).toHaveLength(1);
+		countdown.dispose();
+	});
+
+	it("catches up after the machine sleeps", () => {
+		const onComplete = jest.fn();
+		const countdown = SuperCountdown.until(start + 60000, onComplete, { shims: clock });
+		clock.sleep(45000);
+		clock.advanceBy(1000);
+		expect(countdown.getTimeRemaining()).toBe(14000);
+		clock.advanceBy(14000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		countdown.dispose();
+	});
+
+	it("runs checkpoints given as dates", () => {
+		const callback = jest.fn();
+		const countdown = SuperCountdown.until(start + 60000, undefined, {
+			shims: clock,
+			callbacks: [{ type: "checkpoint", atDate: new Date(start + 20000), callback }],
+		});
+		clock.advanceBy(19999);
+		expect(callback).not.toHaveBeenCalled();
+		clock.advanceBy(1);
+		expect(callback).toHaveBeenCalledTimes(1);
+		countdown.dispose();
+	});
+
+	it("only accepts dated checkpoints on anchored countdowns", () => {
+		const countdown = new SuperCountdown(60000, undefined, { name: "plain", shims: clock });
+		expect(() => countdown.registerCallbacks([{ type: "checkpoint", atDate: start, callback: () => {} }])).toThrow(
+			'Countdown "plain" is not anchored to the wall clock. Use SuperCountdown.until to create it.',
+		);
+		countdown.dispose();
+	});
+
+	it("keeps pauses and time adjustments", () => {
+		const countdown = SuperCountdown.until(start + 60000, undefined, { shims: clock });
+		countdown.addTime(60000);
+		clock.advanceBy(2000);
+		expect(countdown.getTimeRemaining()).toBe(118000);
+
+		countdown.pause();
+		clock.advanceBy(10000);
+		countdown.unpause();
+		clock.advanceBy(2000);
+		expect(countdown.getTimeRemaining()).toBe(116000);
+		countdown.dispose();
+	});
+
+	it("restarts the full duration after a reset", () => {
+		const onComplete = jest.fn();
+		const countdown = SuperCountdown.until(start + 60000, onComplete, { shims: clock });
+		clock.advanceBy(30000);
+		countdown.reset({ autoStart: true });
+		clock.advanceBy(2000);
+		expect(countdown.getTimeRemaining()).toBe(58000);
+
+		countdown.reset();
+		clock.advanceBy(10000);
+		countdown.unpause();
+		clock.advanceBy(2000);
+		expect(countdown.getTimeRemaining()).toBe(58000);
+		clock.advanceBy(58000);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		countdown.dispose();
+	});
+
+	it("restores a countdown stored while paused with its pause", () => {
+		const countdown = SuperCountdown.until(start + 60000, undefined, { shims: clock });
+		clock.advanceBy(10000);
+		countdown.pause();
+		const snapshot = countdown.snapshot();
+		countdown.dispose();
+
+		clock.sleep(30000);
+		const restored = SuperCountdown.restore(snapshot, { shims: clock });
+		expect(restored.getTimeRemaining()).toBe(50000);
+		restored.unpause();
+		clock.advanceBy(2000);
+		expect(restored.getTimeRemaining()).toBe(48000);
+		restored.dispose();
+	});
+});
+
+describe("tick catch-up", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	function runAfterSleep(catchUp?: "fire-all" | "fire-latest" | "skip") {
+		const scheduled: number[] = [];
+		const timer = new SuperTimer({
+			shims: clock,
+			callbacks: [
+				{
+					type: "tick",
+					timeMs: 1000,
+					name: "tick",
+					catchUp,
+					logExecutions: true,
+					callback: () => {},
+				},
+			],
+		});
+		timer.on("tick", event => scheduled.push(event.data.scheduledMs));
+		timer.start();
+		clock.advanceBy(1000);
+		clock.sleep(3500);
+		clock.advanceBy(1000);
+		const missed = timer.getHistory({ types: ["missed"] });
+		timer.dispose();
+		return { scheduled, missed };
+	}
+
+	it("fires once for the latest interval by default", () => {
+		const { scheduled, missed } = runAfterSleep();
+		expect(scheduled).toEqual([1000, 4000, 5000]);
+		expect(missed.map(e => e.data)).toEqual([
+			{
+				callbackName: "tick",
+				missedCount: 2,
+				firstScheduledMs: 2000,
+				lastScheduledMs: 3000,
+				catchUp: "fire-latest",
+			},
+		]);
+	});
+
+	it("fires once for every missed interval with fire-all", () => {
+		expect(runAfterSleep("fire-all").scheduled).toEqual([1000, 2000, 3000, 4000, 5000]);
+	});
+
+	it("waits for the next interval with skip", () => {
+		const { scheduled, missed } = runAfterSleep("skip");
+		expect(scheduled).toEqual([1000, 5000]);
+		expect(missed).toHaveLength(1);
+	});
+
+	it("does not treat a zero interval as missing executions", () => {
+		const callback = jest.fn();
+		const timer = new SuperTimer({ shims: clock, callbacks: [{ type: "tick-reset", timeMs: 0, callback }] });
+		timer.start();
+		clock.advanceBy(10);
+		expect(callback).toHaveBeenCalled();
+		expect(timer.getHistory({ types: ["missed"] })).toEqual([]);
+		timer.dispose();
+	});
+
+	it("does not record missed executions of internal callbacks", () => {
+		const countdown = SuperCountdown.until(clock.wallNow() + 60000, undefined, { shims: clock });
+		clock.sleep(10000);
+		clock.advanceBy(1000);
+		expect(countdown.getHistory({ types: ["missed"] })).toEqual([]);
+		countdown.dispose();
+	});
+});
+
+describe("linked timers", () => {
+	let clock: VirtualClock;
+	let parent: SuperTimer;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		parent = new SuperTimer({ name: "parent", shims: clock });
+	});
+
+	afterEach(() => {
+		parent.dispose();
+	});
+
+	it("run only while the parent runs", () => {
+		const child = new SuperTimer({ shims: clock, parent: { timer: parent } });
+		child.start();
+		expect(child.isPaused()).toBe(true);
+		parent.start();
+		clock.advanceBy(1000);
+		parent.pause();
+		clock.advanceBy(1000);
+		parent.unpause();
+		clock.advanceBy(1000);
+		expect(child.getElapsedMs()).toBe(2000);
+		child.dispose();
+	});
+
+	it("stay paused when paused explicitly", () => {
+		const child = new SuperTimer({ shims: clock, parent: { timer: parent } });
+		parent.start();
+		child.start();
+		child.pause();
+		parent.pause();
+		parent.unpause();
+		expect(child.isPaused()).toBe(true);
+		child.dispose();
+	});
+
+	it("multiply their speed by the parent's", () => {
+		const child = new SuperTimer({ shims: clock, timerSpeedMultiplier: 0.5, parent: { timer: parent } });
+		parent.start();
+		child.start();
+		parent.setSpeedMultiplier(4);
+		expect(child.getSpeedMultiplier()).toBe(2);
+		clock.advanceBy(1000);
+		child.setSpeedMultiplier(1);
+		expect(child.getSpeedMultiplier()).toBe(4);
+		clock.advanceBy(1000);
+		expect(child.getElapsedMs()).toBe(6000);
+		child.dispose();
+	});
+
+	it("follow the parent's time changes and resets only when asked", () => {
+		const follower = new SuperTimer({
+			shims: clock,
+			timerSpeedMultiplier: 2,
+			parent: { timer: parent, followTimeChanges: true },
+		});
+		const independent = new SuperTimer({ shims: clock, parent: { timer: parent } });
+		parent.addTime(1000);
+		expect(follower.getElapsedMs()).toBe(2000);
+		expect(independent.getElapsedMs()).toBe(0);
+
+		independent.addTime(500);
+		parent.reset();
+		expect(follower.getElapsedMs()).toBe(0);
+		expect(independent.getElapsedMs()).toBe(500);
+		follower.dispose();
+		independent.dispose();
+	});
+
+	it("are unlinked when the parent is disposed", () => {
+		const child = new SuperTimer({ shims: clock, parent: { timer: parent } });
+		parent.start();
+		child.start();
+		parent.dispose();
+		clock.advanceBy(1000);
+		expect(child.getElapsedMs()).toBe(1000);
+		child.dispose();
+	});
+});
+
+describe("undo and redo", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("reverts time adjustments while keeping the time elapsed since", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		timer.addTime(5000);
+		clock.advanceBy(1000);
+		expect(timer.undo()).toBe(true);
+		expect(timer.getElapsedMs()).toBe(1000);
+		expect(timer.redo()).toBe(true);
+		expect(timer.getElapsedMs()).toBe(6000);
+		expect(timer.getHistory({ types: ["undo", "redo"] }).map(e => e.event)).toEqual(["undo", "redo"]);
+		timer.dispose();
+	});
+
+	it("reverts speed changes", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.setSpeedMultiplier(3);
+		timer.undo();
+		expect(timer.getSpeedMultiplier()).toBe(1);
+		timer.redo();
+		expect(timer.getSpeedMultiplier()).toBe(3);
+		timer.dispose();
+	});
+
+	it("clears the redo stack on a new adjustment and ignores no-ops", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.setTime(1000);
+		timer.undo();
+		expect(timer.canRedo()).toBe(true);
+		timer.addTime(0);
+		expect(timer.canRedo()).toBe(true);
+		timer.addTime(500);
+		expect(timer.canRedo()).toBe(false);
+		expect(timer.undo()).toBe(true);
+		expect(timer.undo()).toBe(false);
+		timer.dispose();
+	});
+
+	it("keeps at most undoLimit adjustments", () => {
+		const timer = new SuperTimer({ shims: clock, undoLimit: 2 });
+		timer.addTime(1);
+		timer.addTime(10);
+		timer.addTime(100);
+		while (timer.undo());
+		expect(timer.getElapsedMs()).toBe(1);
+		timer.dispose();
+	});
+
+	it("does not undo adjustments made without undo", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.withoutUndo(() => timer.addTime(1000));
+		expect(timer.canUndo()).toBe(false);
+		timer.dispose();
+	});
+
+	it("does not undo a countdown's completion", () => {
+		const countdown = new SuperCountdown(5000, undefined, { shims: clock });
+		countdown.start();
+		countdown.addTime(-2000);
+		clock.advanceBy(3000);
+		expect(countdown.isDone()).toBe(true);
+		countdown.undo();
+		expect(countdown.getTimeRemaining()).toBe(2000);
+		expect(countdown.canUndo()).toBe(false);
+		countdown.dispose();
+	});
+
+	it("does not undo skipped phases", () => {
+		const sequence = new SuperSequence([{ name: "only", durationMs: 1000 }], { shims: clock });
+		sequence.skipPhase();
+		expect(sequence.canUndo()).toBe(false);
+		sequence.dispose();
+	});
+
+	it("does not undo sync corrections and keeps the redo stack through them", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.addTime(1000);
+		timer.undo();
+		timer.applySyncState({ elapsedMs: 5000, isPaused: true, speed: 2, capturedAt: clock.wallNow() });
+		expect(timer.canUndo()).toBe(false);
+		expect(timer.canRedo()).toBe(true);
+		timer.dispose();
+	});
+
+	it("is cleared by reset", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.addTime(1000);
+		timer.reset();
+		expect(timer.canUndo()).toBe(false);
+		timer.dispose();
+	});
+});
+
+describe("event data", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("is structured for each event type", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(1000);
+		timer.addTime(500);
+		timer.setTime(3000);
+		timer.setSpeedMultiplier(2);
+		timer.reset();
+		const data = timer
+			.getHistory({ types: ["addTime", "setTime", "setSpeed", "reset"] })
+			.map(e => [e.event, e.data]);
+		expect(data).toEqual([
+			["addTime", { deltaMs: 500, fromMs: 1000, toMs: 1500 }],
+			["setTime", { deltaMs: 1500, fromMs: 1500, toMs: 3000 }],
+			["setSpeed", { fromSpeed: 1, toSpeed: 2 }],
+			["reset", { previousElapsedMs: 3000 }],
+		]);
+		timer.dispose();
+	});
+
+	it("narrows on the event type", () => {
+		const timer = new SuperTimer({ shims: clock });
+		const deltas: number[] = [];
+		timer.on("addTime", event => deltas.push(event.data.deltaMs));
+		timer.addTime(250);
+		expect(deltas).toEqual([250]);
+		timer.dispose();
+	});
+});
+
+describe("upgradeTimerEvents", () => {
+	const date = "2024-01-01T00:00:00.000Z";
+
+	it("converts string and number data from earlier versions", () => {
+		const legacy = [
+			{ date, event: "checkpoint", elapsedMs: 1000, data: "checkpoint-1" },
+			{ date, event: "addTime", elapsedMs: 1000, data: "5000ms will be added to elapsedMs." },
+			{ date, event: "setTime", elapsedMs: 6000, data: "elapsedMs will be set to 2000." },
+			{ date, event: "setSpeed", elapsedMs: 2000, data: 2 },
+			{ date, event: "setSpeed", elapsedMs: 2000, data: 0.5 },
+			{ date, event: "reset", elapsedMs: 0, data: 2000 },
+		] as unknown as TimerEventSnapshot[];
+		expect(upgradeTimerEvents(legacy).map(e => e.data)).toEqual([
+			{ callbackName: "checkpoint-1", scheduledMs: 1000, actualMs: 1000, latenessMs: 0 },
+			{ deltaMs: 5000, fromMs: 1000, toMs: 6000 },
+			{ deltaMs: -4000, fromMs: 6000, toMs: 2000 },
+			{ fromSpeed: 1, toSpeed: 2 },
+			{ fromSpeed: 2, toSpeed: 0.5 },
+			{ previousElapsedMs: 2000 },
+		]);
+	});
+
+	it("returns current events as they are", () => {
+		const events: TimerEventSnapshot[] = [
+			{ date, event: "setSpeed", elapsedMs: 0, data: { fromSpeed: 3, toSpeed: 2 } },
+			{ date, event: "pause", elapsedMs: 0 },
+		];
+		const upgraded = upgradeTimerEvents(events);
+		expect(upgraded[0]).toBe(events[0]);
+		expect(upgraded[1]).toBe(events[1]);
+	});
+
+	it("upgrades histories restored from old snapshots", () => {
+		const timer = SuperTimer.restore(
+			{
+				version: 1,
+				name: "old",
+				elapsedMs: 1000,
+				isPaused: true,
+				speed: 1,
+				savedAt: 0,
+				callbacks: [],
+				history: {
+					events: [{ date, event: "reset", elapsedMs: 0, data: 1500 }] as unknown as TimerEventSnapshot[],
+				},
+			},
+			{ shims: new VirtualClock() },
+		);
+		expect(timer.getHistory()[0].data).toEqual({ previousElapsedMs: 1500 });
+		timer.dispose();
+	});
+});
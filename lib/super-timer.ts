@@ -1,3 +1,57 @@
+import { nextOccurrence, parseRecurrenceRule } from "./recurrence.js";
+import { Duration, durationToMs, formatDuration, FormatDurationOptions } from "./util.js";
+
+export { VirtualClock } from "./virtual-clock.js";
+export type { VirtualClockOptions } from "./virtual-clock.js";
+export { TimerGroup } from "./timer-group.js";
+export { ChessClock } from "./chess-clock.js";
+export { nextOccurrence, parseRecurrenceRule } from "./recurrence.js";
+export type { RecurrenceSchedule } from "./recurrence.js";
+export { TimerSync, BroadcastChannelTransport, EventEmitterTransport } from "./timer-sync.js";
+export type {
+	TimerSyncMessage,
+	TimerSyncOptions,
+	TimerSyncRole,
+	TimerSyncTransport,
+	EventEmitterLike,
+} from "./timer-sync.js";
+export { NetworkSyncHost, NetworkSyncClient, LoopbackNetwork } from "./network-sync.js";
+export type {
+	NetworkTransport,
+	NetworkTimerOperation,
+	NetworkSyncMessage,
+	ClockSample,
+	NetworkSyncShims,
+	NetworkSyncHostOptions,
+	NetworkSyncClientOptions,
+	LoopbackNetworkOptions,
+} from "./network-sync.js";
+export { TimerReplay, replay } from "./replay.js";
+export type { TimerReplayOptions } from "./replay.js";
+export {
+	historyToCsv,
+	historyToJsonLines,
+	historyFromJson,
+	getActiveSegments,
+	activeSegmentsToCsv,
+} from "./history-export.js";
+export type { ActiveSegment, ActiveSegmentOptions, HistoryCsvOptions } from "./history-export.js";
+export { formatDuration, parseDuration, durationToMs, DurationParseError } from "./util.js";
+export type {
+	Duration,
+	DurationUnit,
+	DurationParseErrorCode,
+	FormatDurationOptions,
+	ParseDurationOptions,
+} from "./util.js";
+export type {
+	ChessClockIncrement,
+	ChessClockPlayer,
+	ChessClockPlayerState,
+	ChessClockOptions,
+	ChessClockFlagFallCallback,
+} from "./chess-clock.js";
+
 // Creates a type T with every prop in P being required.
 export type RequiredProp<T, P extends keyof T> = T & { [K in P]-?: T[P] };
 
@@ -6,6 +60,18 @@ export type PartialProp<T, k extends keyof T> = T[k] extends object
 	? Partial<Omit<T, k>> & { [P in k]: Partial<T[k]> }
 	: never;
 
+// The longest delay setTimeout supports
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// The event logged when a callback is forcefully executed on update
+const updateEventTypes: Record<InternalCallback<unknown>["type"], CallbackEventType> = {
+	checkpoint: "checkpoint",
+	"checkpoint-once": "tick",
+	tick: "tick",
+	"tick-reset": "tick",
+	recurrence: "recurrence",
+};
+
 // shim requestAnimationFrame and cancelAnimationFrame
 let timerId = 1;
 if (typeof globalThis.requestAnimationFrame === "undefined" || typeof globalThis.cancelAnimationFrame === "undefined") {
@@ -56,9 +122,10 @@ export interface SuperTimerCallbackBase<TTimerType> {
 	 * When or how often to run the callback. For "checkpoint"
 	 * callbacks, this is the elapsed time at which to run the
 	 * callback. For "tick" callbacks, this is the interval at
-	 * which to run the callback.
+	 * which to run the callback. May be given as a duration
+	 * string, e.g. "1:30" or "500ms".
 	 */
-	timeMs: number;
+	timeMs: Duration;
 
 	/**
 	 * Callback to execute on each tick
@@ -96,7 +163,9 @@ export interface SuperTimerCallbackBase<TTimerType> {
 
 	/**
 	 * If true, each time the callback is executed, log to the
-	 * timer history object.
+	 * timer history object. Each entry records the elapsed time
+	 * at which the execution was scheduled, the elapsed time at
+	 * which it actually ran, and the difference between the two.
 	 *
 	 * @default false
 	 */
@@ -124,18 +193,103 @@ export interface SuperTimerCallbackBase<TTimerType> {
 	 * @default false
 	 */
 	disableTickDriftCompensation?: boolean;
+
+	/**
+	 * What to do when executions of a "tick" or "tick-reset" callback are
+	 * missed, e.g. because the browser throttled timers in a background tab
+	 * or the machine was asleep. Missed executions are detected when the
+	 * time since the previous execution spans more than one interval.
+	 *
+	 * "fire-all" - Execute the callback once for every missed interval.
+	 * "fire-latest" - Execute the callback once, for the latest interval.
+	 * "skip" - Do not execute the callback until the next interval that
+	 * runs on time.
+	 *
+	 * In all cases, a "missed" event is logged to the timer history.
+	 *
+	 * @default "fire-latest"
+	 */
+	catchUp?: "fire-all" | "fire-latest" | "skip";
 }
 
-export type SuperTimerCallback = SuperTimerCallbackBase<SuperTimer>;
+/**
+ * A callback that runs at wall-clock times given by a recurrence rule,
+ * such as "every weekday at 09:00", while the timer is running. The
+ * timer's elapsed time and speed do not affect when it runs, and
+ * occurrences that pass while the timer is paused are skipped.
+ */
+export type RecurrenceCallback<TTimerType> = Omit<
+	SuperTimerCallbackBase<TTimerType>,
+	"type" | "timeMs" | "disableTickDriftCompensation" | "catchUp"
+> & {
+	type: "recurrence";
+
+	/**
+	 * A cron expression, e.g. "0 9 * * 1-5", or an RRULE, e.g.
+	 * "FREQ=MONTHLY;BYMONTHDAY=-1". See `parseRecurrenceRule` for the
+	 * supported syntax.
+	 */
+	rule: string;
+
+	/**
+	 * The IANA time zone in which to evaluate the rule, e.g. "America/Chicago".
+	 *
+	 * @default undefined (the local time zone)
+	 */
+	timeZone?: string;
+};
 
-export type SuperCountdownCallback = SuperTimerCallbackBase<SuperCountdown>;
+export type TimerCallbackDefinition<TTimerType> = SuperTimerCallbackBase<TTimerType> | RecurrenceCallback<TTimerType>;
 
-export type InternalCallback<TTimerType> = RequiredProp<
-	SuperTimerCallbackBase<TTimerType>,
-	"name" | "requireAnimationFrame"
+export type SuperTimerCallback = TimerCallbackDefinition<SuperTimer>;
+
+export type SuperCountdownCallback =
+	| TimerCallbackDefinition<SuperCountdown>
+	| (Omit<SuperTimerCallbackBase<SuperCountdown>, "type" | "timeMs"> & {
+			type: "checkpoint" | "checkpoint-once";
+
+			/**
+			 * Run the checkpoint when this much time remains, instead of at a
+			 * given amount of elapsed time. Use a negative value to run the
+			 * checkpoint after the countdown has gone into overtime, e.g.
+			 * -30000 to run it 30 seconds after the countdown completes.
+			 */
+			remainingMs: Duration;
+	  })
+	| (Omit<SuperTimerCallbackBase<SuperCountdown>, "type" | "timeMs"> & {
+			type: "checkpoint" | "checkpoint-once";
+
+			/**
+			 * Run the checkpoint at this wall-clock date/time. Only supported on
+			 * countdowns created with `SuperCountdown.until`.
+			 */
+			atDate: Date | number;
+	  });
+
+export type SuperStopwatchCallback = TimerCallbackDefinition<SuperStopwatch>;
+
+export type SuperSequenceCallback = TimerCallbackDefinition<SuperSequence>;
+
+export type InternalCallback<TTimerType> = Omit<
+	RequiredProp<SuperTimerCallbackBase<TTimerType>, "name" | "requireAnimationFrame">,
+	"type" | "timeMs"
 > & {
+	type: TimerCallbackDefinition<TTimerType>["type"];
+	timeMs: number;
 	lastExecutionMs: number;
 	registeredAt: number;
+
+	/**
+	 * For recurrence callbacks, the rule and time zone. `timeMs` is unused.
+	 */
+	rule?: string;
+	timeZone?: string;
+
+	/**
+	 * For countdown checkpoints anchored to the time remaining, the time
+	 * remaining at which the checkpoint runs. `timeMs` is derived from it.
+	 */
+	remainingMs?: number;
 };
 
 export interface TimerShims {
@@ -165,7 +319,7 @@ export interface SuperTimerOptionsInternal<TTimerType> {
 	 *
 	 * @default []
 	 */
-	callbacks: SuperTimerCallbackBase<TTimerType>[];
+	callbacks: TimerCallbackDefinition<TTimerType>[];
 
 	/**
 	 * Adjust the "speed" of the timer. A value of 1 is "real
@@ -181,9 +335,119 @@ export interface SuperTimerOptionsInternal<TTimerType> {
 
 	/**
 	 * Override the implementations of some standard lib dependencies.
-	 * May be useful for testing.
+	 * May be useful for testing. Any shims that are not provided fall
+	 * back to the standard implementations.
+	 *
+	 * See VirtualClock for a deterministic implementation that can be
+	 * driven manually.
 	 */
 	shims: TimerShims;
+
+	/**
+	 * Drive this timer from another timer instead of from the wall clock.
+	 * A linked timer only runs while its parent is running, and its speed
+	 * is the parent's speed times its own `timerSpeedMultiplier`.
+	 *
+	 * @default undefined
+	 */
+	parent?: TimerLink;
+
+	/**
+	 * Limit which events are kept in the timer history and for how long.
+	 * Listeners registered with `on` are notified of every event, whether
+	 * or not it is kept.
+	 *
+	 * @default {} (every event is kept forever)
+	 */
+	historyRetention: HistoryRetentionPolicy;
+
+	/**
+	 * The maximum number of manual adjustments that can be undone.
+	 *
+	 * @default 50
+	 */
+	undoLimit: number;
+}
+
+export interface TimerLink {
+	/**
+	 * The timer that drives the linked timer.
+	 */
+	timer: SuperTimerBase<any>;
+
+	/**
+	 * If true, time added to or set on the parent is also added to the
+	 * linked timer, scaled by the linked timer's relative speed multiplier,
+	 * and resetting the parent also resets the linked timer.
+	 *
+	 * @default false
+	 */
+	followTimeChanges?: boolean;
+}
+
+export interface HistoryRetentionPolicy {
+	/**
+	 * The maximum number of events to keep. When exceeded, the oldest
+	 * events are discarded.
+	 */
+	maxEvents?: number;
+
+	/**
+	 * The maximum age of events to keep, based on the wall-clock date
+	 * of each event. Older events are discarded as new events are logged
+	 * and whenever the history is read, so an idle timer does not return
+	 * stale events.
+	 */
+	maxAgeMs?: number;
+
+	/**
+	 * If provided, only events of these types are kept.
+	 */
+	eventTypes?: TimerEventType[];
+}
+
+export interface TimerResetOptions {
+	/**
+	 * If true, registered callbacks are kept, and "checkpoint-once"
+	 * callbacks that have already run are registered again. If false,
+	 * all callbacks are removed, as with removeAllCallbacks.
+	 *
+	 * @default true
+	 */
+	keepCallbacks?: boolean;
+
+	/**
+	 * If false, the timer history is cleared before the reset is logged.
+	 *
+	 * @default true
+	 */
+	keepHistory?: boolean;
+
+	/**
+	 * If true, the timer is started after it is reset. Otherwise, the
+	 * timer is left paused.
+	 *
+	 * @default false
+	 */
+	autoStart?: boolean;
+}
+
+export interface TimerHistoryQuery {
+	/**
+	 * Only return events that occurred at or after this date/time. A
+	 * number is treated as milliseconds since the epoch.
+	 */
+	since?: Date | number;
+
+	/**
+	 * Only return events of these types.
+	 */
+	types?: TimerEventType[];
+
+	/**
+	 * Return at most this many events, keeping the most recent.
+	 */
+	limit?: number;
 }
 
 /**
@@ -197,6 +461,16 @@ export interface SuperTimerOptionsInternal<TTimerType> {
  * "tick" - A tick callback was executed
  * "setTime" - The timer's elapsed time was set
  * "addTime" - The timer's elapsed time was adjusted
+ * "reset" - The timer was reset
+ * "setSpeed" - The timer's speed multiplier was changed
+ * "lap" - A lap was recorded on a stopwatch
+ * "phaseChange" - A sequence moved to a different phase
+ * "setDuration" - A countdown's duration was changed
+ * "resync" - The elapsed time was corrected to match the wall clock
+ * "missed" - Executions of a tick callback were missed
+ * "recurrence" - A recurrence callback was executed
+ * "undo" - A manual adjustment was undone
+ * "redo" - An undone adjustment was reapplied
  */
 export type TimerEventType =
 	| "create"
@@ -208,9 +482,86 @@ export type TimerEventType =
 	| "setTime"
 	| "addTime"
 	| "reset"
-	| "setSpeed";
+	| "setSpeed"
+	| "lap"
+	| "phaseChange"
+	| "setDuration"
+	| "resync"
+	| "missed"
+	| "recurrence"
+	| "undo"
+	| "redo";
+
+// The events logged for executions of callbacks
+type CallbackEventType = "checkpoint" | "tick" | "recurrence";
+
+/**
+ * Reported by "checkpoint", "tick" and "recurrence" events, which are
+ * only logged for callbacks registered with `logExecutions`.
+ */
+export interface TimerCallbackExecutionData {
+	callbackName: string;
 
-export interface TimerEvent {
+	/**
+	 * The elapsed time at which the callback was due.
+	 */
+	scheduledMs: number;
+
+	/**
+	 * The elapsed time at which the callback actually executed.
+	 */
+	actualMs: number;
+
+	latenessMs: number;
+}
+
+/**
+ * Reported by "setTime" and "addTime" events. For countdowns, these are
+ * in terms of elapsed time rather than time remaining.
+ */
+export interface TimerTimeChangeData {
+	deltaMs: number;
+	fromMs: number;
+	toMs: number;
+}
+
+export interface TimerSpeedChangeData {
+	fromSpeed: number;
+	toSpeed: number;
+}
+
+/**
+ * The data reported for each type of event. Events without data map
+ * to undefined.
+ */
+export interface TimerEventDataMap {
+	create: undefined;
+	pause: undefined;
+	unpause: undefined;
+	start: undefined;
+	checkpoint: TimerCallbackExecutionData;
+	tick: TimerCallbackExecutionData;
+	recurrence: TimerCallbackExecutionData;
+	setTime: TimerTimeChangeData;
+	addTime: TimerTimeChangeData;
+	reset: { previousElapsedMs: number };
+	setSpeed: TimerSpeedChangeData;
+	lap: { lapNumber: number; durationMs: number; label?: string };
+	phaseChange: { index: number; name: string; previousIndex: number };
+	setDuration: { previousDurationMs: number; durationMs: number };
+	resync: { driftMs: number };
+	missed: {
+		callbackName: string;
+		missedCount: number;
+		firstScheduledMs: number;
+		lastScheduledMs: number;
+		catchUp: "fire-all" | "fire-latest" | "skip";
+	};
+	undo: TimerAdjustmentData;
+	redo: TimerAdjustmentData;
+}
+
+interface TimerEventBase<TEventType extends TimerEventType> {
 	/**
 	 * The date/time at which the event occurred.
 	 */
@@ -227,16 +578,34 @@ export interface TimerEvent {
 	 * The type of event that occurred.
 	 *
 	 */
-	event: TimerEventType;
-
-	/**
-	 * Additional data reported for this event. For example
-	 * checkpoint and tick will report the name of the callback,
-	 * setTime and addTime will report the associated value.
-	 */
-	data?: string | number | Record<string, string | number>;
+	event: TEventType;
 }
 
+/**
+ * An event in the timer history. The shape of `data` depends on the
+ * type of event, see `TimerEventDataMap`. Narrow on `event` to access it:
+ *
+ * @example
+ * if (event.event === "addTime") {
+ *   console.log(event.data.deltaMs);
+ * }
+ */
+export type TimerEvent<TEventType extends TimerEventType = TimerEventType> = {
+	[K in TEventType]: TimerEventBase<K> &
+		(TimerEventDataMap[K] extends undefined ? { data?: undefined } : { data: TimerEventDataMap[K] });
+}[TEventType];
+
+/**
+ * A listener for timer events of a particular type.
+ *
+ * @param event The event that was added to the timer history
+ * @param timer The timer on which the event occurred
+ */
+export type TimerEventListener<TTimerType, TEventType extends TimerEventType = TimerEventType> = (
+	event: TimerEvent<TEventType>,
+	timer: TTimerType,
+) => void;
+
 export interface TimerHistory {
 	/**
 	 * A list of events that have occurred since the timer
@@ -270,120 +639,573 @@ export interface TimerState {
 	history: TimerHistory;
 }
 
+/**
+ * A manual change to a timer that can be undone and redone. Time
+ * adjustments are in terms of elapsed time, also for countdowns.
+ */
+export type TimerAdjustment =
+	| ({ type: "addTime" | "setTime"; suppressCallbacks: boolean } & TimerTimeChangeData)
+	| ({ type: "setSpeed" } & TimerSpeedChangeData);
+
+/**
+ * A TimerAdjustment as reported by "undo" and "redo" events.
+ */
+export type TimerAdjustmentData =
+	| ({ type: "addTime" | "setTime" } & TimerTimeChangeData)
+	| ({ type: "setSpeed" } & TimerSpeedChangeData);
+
+/**
+ * The state of a timer at a moment in time, used to make another timer
+ * mirror it. See `getSyncState` and `applySyncState`.
+ */
+export interface TimerSyncState {
+	elapsedMs: number;
+	isPaused: boolean;
+	speed: number;
+
+	/**
+	 * The wall-clock time at which the state was captured, as a Unix
+	 * timestamp in milliseconds.
+	 */
+	capturedAt: number;
+}
+
 export type SuperTimerOptionsBase<TTimerType> = Partial<PartialProp<SuperTimerOptionsInternal<TTimerType>, "shims">>;
 
 export type SuperTimerOptions = SuperTimerOptionsBase<SuperTimer>;
-export type SuperCountdownOptions = SuperTimerOptionsBase<SuperCountdown>;
+export type SuperCountdownOptions = Omit<SuperTimerOptionsBase<SuperCountdown>, "callbacks"> & {
+	/**
+	 * A list of callbacks to execute when the countdown is running.
+	 * Checkpoints may be given relative to the time remaining.
+	 *
+	 * @default []
+	 */
+	callbacks?: SuperCountdownCallback[];
 
-const defaultOptions: Omit<SuperTimerOptionsInternal<any>, "name"> = {
-	callbacks: [],
-	timerSpeedMultiplier: 1.0,
-	shims: {
-		setTimeout: setTimeout.bind(globalThis),
-		clearTimeout: clearTimeout.bind(globalThis),
-		setInterval: setInterval.bind(globalThis),
-		clearInterval: clearInterval.bind(globalThis),
-		requestAnimationFrame: requestAnimationFrame.bind(globalThis),
-		cancelAnimationFrame: cancelAnimationFrame.bind(globalThis),
-		performance,
-		Date,
-	},
+	/**
+	 * If true, the countdown keeps running after it completes, and the
+	 * time remaining goes negative. Complete callbacks still run when the
+	 * time remaining reaches zero.
+	 *
+	 * @default false
+	 */
+	overtime?: boolean;
 };
+export type SuperCountdownUntilOptions = SuperCountdownOptions & {
+	/**
+	 * How often to compare the countdown against the wall clock.
+	 *
+	 * @default 1000
+	 */
+	resyncIntervalMs?: number;
 
-abstract class SuperTimerBase<TTimerType> {
-	protected id: number;
-	protected callbacks: InternalCallback<TTimerType>[] = [];
-	protected history: TimerHistory = { events: [] };
-	protected unpausedAt: DOMHighResTimeStamp | undefined;
-	protected pausedAt: DOMHighResTimeStamp;
-	protected elapsedMs: number = 0;
-	protected timeouts: Map<string, number | NodeJS.Timeout> = new Map();
-	protected intervals: Map<string, number | NodeJS.Timeout> = new Map();
-	protected rafs: Map<string, number> = new Map();
-	protected callbackIdSeeds: Record<string, number> = {};
-	protected callbackNames: Record<string, Set<string>> = {};
-	protected lib: TimerShims;
-	protected disposed: boolean = false;
-	protected speed: number;
-	protected name: string;
+	/**
+	 * How far the countdown may drift from the wall clock before it is
+	 * corrected.
+	 *
+	 * @default 250
+	 */
+	resyncToleranceMs?: number;
+};
 
-	constructor(options: SuperTimerOptionsBase<TTimerType> = {}) {
-		this.id = timerId++;
-		const defaultedShims = { ...defaultOptions.shims, ...options.shims };
-		const defaultedOptions: SuperTimerOptionsInternal<TTimerType> = {
-			...defaultOptions,
-			name: `timer-${this.id}`,
-			...options,
-			shims: defaultedShims,
-		};
-		this.registerCallbacks(defaultedOptions.callbacks);
-		this.lib = defaultOptions.shims;
-		this.pausedAt = this.lib.performance.now();
-		this.speed = defaultedOptions.timerSpeedMultiplier || 1.0;
-		this.name = defaultedOptions.name;
-	}
+export type SuperStopwatchOptions = SuperTimerOptionsBase<SuperStopwatch>;
+export type SuperSequenceOptions = SuperTimerOptionsBase<SuperSequence> & {
+	/**
+	 * The number of times to run through the full list of phases.
+	 *
+	 * @default 1
+	 */
+	repeat?: number;
+};
 
-	protected startCallbacks(callbacks: InternalCallback<TTimerType>[]) {
-		if (!this.unpausedAt) {
-			return;
-		}
+export interface SequencePhase {
+	/**
+	 * The name of the phase, e.g. "work" or "rest".
+	 */
+	name: string;
 
-		for (const callback of callbacks) {
-			switch (callback.type) {
-				case "checkpoint":
-				case "checkpoint-once":
-					this.handleCheckpointCallback(callback);
-					break;
+	/**
+	 * How long the phase lasts.
+	 */
+	durationMs: number;
 
-				case "tick-reset":
-					this.handleTickResetCallback(callback);
-					break;
+	/**
+	 * The number of times to run this phase in a row.
+	 *
+	 * @default 1
+	 */
+	repeat?: number;
+}
 
-				case "tick":
-					this.handleTickCallback(callback);
-					break;
-			}
-		}
-	}
+export interface SequencePhaseState {
+	/**
+	 * The name of the phase.
+	 */
+	name: string;
 
-	protected abstract executeCallback(callback: InternalCallback<TTimerType>): void;
+	/**
+	 * How long the phase lasts.
+	 */
+	durationMs: number;
 
-	protected createEventAndInvokeCallback(
-		callback: InternalCallback<TTimerType>,
-		eventType: TimerEventType | undefined,
-		sourceCallback?: InternalCallback<TTimerType>,
-	) {
-		const elapsedMs = this.getElapsedMs();
-		if (eventType) {
-			this.history.events.push({
-				date: new this.lib.Date(),
-				event: eventType,
-				elapsedMs,
-				data: callback.name,
-			});
-		}
-		if (callback.requireAnimationFrame) {
-			const rafId = this.lib.requestAnimationFrame(() => {
-				(sourceCallback ?? callback).lastExecutionMs = elapsedMs;
-				this.executeCallback(callback);
-			});
-			this.rafs.set(callback.name, rafId);
-		} else {
-			(sourceCallback ?? callback).lastExecutionMs = elapsedMs;
-			this.executeCallback(callback);
-		}
-	}
+	/**
+	 * The position of this phase among all phases of the sequence, with
+	 * every repeat expanded.
+	 */
+	index: number;
 
-	protected handleRafCallback(callback: InternalCallback<TTimerType>) {
-		const elapsedMs = this.getElapsedMs();
-		if (this.unpausedAt) {
+	/**
+	 * The position of this phase in the list of phases provided to the sequence.
+	 */
+	phaseIndex: number;
+
+	/**
+	 * The 1-based repetition of this phase within the current round.
+	 */
+	iteration: number;
+
+	/**
+	 * The 1-based repetition of the full list of phases.
+	 */
+	round: number;
+
+	/**
+	 * The elapsed time of the sequence at which this phase starts.
+	 */
+	startMs: number;
+
+	/**
+	 * The elapsed time of the sequence at which this phase ends.
+	 */
+	endMs: number;
+}
+
+/**
+ * A callback that runs when a sequence moves to a different phase.
+ *
+ * @param phase The phase that is now current
+ * @param previousPhase The phase that was current before the change
+ * @param timer The sequence
+ */
+export type SequencePhaseChangeCallback = (
+	phase: SequencePhaseState,
+	previousPhase: SequencePhaseState,
+	timer: SuperSequence,
+) => void;
+
+export interface StopwatchLap {
+	/**
+	 * The 1-based number of this lap.
+	 */
+	lapNumber: number;
+
+	/**
+	 * Optional label provided when the lap was recorded.
+	 */
+	label?: string;
+
+	/**
+	 * The duration of this lap alone.
+	 */
+	durationMs: number;
+
+	/**
+	 * The elapsed time of the stopwatch when the lap was recorded.
+	 */
+	cumulativeMs: number;
+
+	/**
+	 * The date/time at which the lap was recorded.
+	 */
+	date: Date;
+
+	/**
+	 * True if this is the shortest lap. Only set when there are at least two laps.
+	 */
+	isFastest: boolean;
+
+	/**
+	 * True if this is the longest lap. Only set when there are at least two laps.
+	 */
+	isSlowest: boolean;
+}
+
+export interface StopwatchSplit {
+	/**
+	 * The number of the lap in progress.
+	 */
+	lapNumber: number;
+
+	/**
+	 * The time elapsed in the lap in progress.
+	 */
+	lapMs: number;
+
+	/**
+	 * The total elapsed time of the stopwatch.
+	 */
+	cumulativeMs: number;
+}
+
+/**
+ * A JSON-safe copy of a TimerEvent. The date is stored as an ISO string.
+ */
+export type TimerEventSnapshot<TEventType extends TimerEventType = TimerEventType> = {
+	[K in TEventType]: Omit<TimerEvent<K>, "date"> & { date: string };
+}[TEventType];
+
+/**
+ * Convert events recorded by earlier versions, whose data was a string or
+ * a number, e.g. "5000ms will be added to elapsedMs.", to the shapes in
+ * `TimerEventDataMap`. Current events are returned as-is.
+ * @param events The events, in the order they were recorded
+ */
+export function upgradeTimerEvents<TEvent extends TimerEvent | TimerEventSnapshot>(events: TEvent[]): TEvent[] {
+	// Legacy setSpeed events only recorded the new speed
+	let speed = 1;
+	return events.map(event => {
+		const data: unknown = event.data;
+		let upgraded = data;
+		switch (event.event) {
+			case "checkpoint":
+			case "tick":
+			case "recurrence":
+				if (typeof data === "string") {
+					const elapsedMs = event.elapsedMs;
+					upgraded = { callbackName: data, scheduledMs: elapsedMs, actualMs: elapsedMs, latenessMs: 0 };
+				}
+				break;
+			case "addTime": {
+				const match = typeof data === "string" ? /^(\S+)ms will be added/.exec(data) : null;
+				if (match) {
+					const deltaMs = Number(match[1]);
+					upgraded = { deltaMs, fromMs: event.elapsedMs, toMs: event.elapsedMs + deltaMs };
+				}
+				break;
+			}
+			case "setTime": {
+				const match = typeof data === "string" ? /will be set to (\S+)\.$/.exec(data) : null;
+				if (match) {
+					const toMs = Number(match[1]);
+					upgraded = { deltaMs: toMs - event.elapsedMs, fromMs: event.elapsedMs, toMs };
+				}
+				break;
+			}
+			case "reset":
+				if (typeof data === "number") {
+					upgraded = { previousElapsedMs: data };
+				}
+				break;
+			case "setSpeed":
+				if (typeof data === "number") {
+					upgraded = { fromSpeed: speed, toSpeed: data };
+				}
+				speed = (upgraded as TimerSpeedChangeData).toSpeed;
+				break;
+		}
+		return upgraded === data ? event : { ...event, data: upgraded };
+	});
+}
+
+/**
+ * The serializable parts of a registered callback. The callback function
+ * itself cannot be serialized, so it is rebound by name on restore.
+ */
+export type TimerCallbackSnapshot = Omit<InternalCallback<unknown>, "callback">;
+
+export interface TimerSnapshot {
+	/**
+	 * The version of the snapshot format.
+	 */
+	version: 1;
+
+	/**
+	 * The name of the timer.
+	 */
+	name: string;
+
+	/**
+	 * The elapsed time of the timer at the moment the snapshot was taken.
+	 */
+	elapsedMs: number;
+
+	/**
+	 * Whether or not the timer was paused when the snapshot was taken.
+	 */
+	isPaused: boolean;
+
+	/**
+	 * The timer's speed multiplier.
+	 */
+	speed: number;
+
+	/**
+	 * The wall-clock time (ms since epoch) at which the snapshot was taken.
+	 * Used to account for time that passed while a running timer was stored.
+	 */
+	savedAt: number;
+
+	/**
+	 * For countdowns only, the elapsed time at which the countdown completes.
+	 */
+	completeTime?: number;
+
+	/**
+	 * For countdowns only, whether the countdown keeps running past zero.
+	 */
+	overtime?: boolean;
+
+	/**
+	 * For countdowns created with `SuperCountdown.until` only, the wall-clock
+	 * time (ms since epoch) at which the countdown completes.
+	 */
+	targetDate?: number;
+
+	/**
+	 * All user-registered callbacks. Internal callbacks (names beginning
+	 * with "!") are not included; they are recreated by the timer itself.
+	 */
+	callbacks: TimerCallbackSnapshot[];
+
+	history: {
+		events: TimerEventSnapshot[];
+	};
+}
+
+export type TimerRestoreOptions<TTimerType> = Omit<SuperTimerOptionsBase<TTimerType>, "callbacks"> & {
+	/**
+	 * Callback functions to rebind, keyed by callback name. Callbacks in
+	 * the snapshot without a matching entry are not restored.
+	 *
+	 * @default {}
+	 */
+	callbacks?: Record<string, TimerCallback<TTimerType>>;
+};
+
+export type SuperTimerRestoreOptions = TimerRestoreOptions<SuperTimer>;
+export type SuperCountdownRestoreOptions = TimerRestoreOptions<SuperCountdown> &
+	Pick<SuperCountdownUntilOptions, "resyncIntervalMs" | "resyncToleranceMs"> & {
+		/**
+		 * Callback to execute when the countdown completes. This is registered
+		 * before any stored time is accounted for, so it will run if the
+		 * countdown completed while it was stored.
+		 */
+		onComplete?: (timer: SuperCountdown) => void;
+	};
+
+const defaultOptions: Omit<SuperTimerOptionsInternal<any>, "name"> = {
+	callbacks: [],
+	timerSpeedMultiplier: 1.0,
+	historyRetention: {},
+	undoLimit: 50,
+	shims: {
+		setTimeout: setTimeout.bind(globalThis),
+		clearTimeout: clearTimeout.bind(globalThis),
+		setInterval: setInterval.bind(globalThis),
+		clearInterval: clearInterval.bind(globalThis),
+		requestAnimationFrame: requestAnimationFrame.bind(globalThis),
+		cancelAnimationFrame: cancelAnimationFrame.bind(globalThis),
+		performance,
+		Date,
+	},
+};
+
+export abstract class SuperTimerBase<TTimerType> {
+	protected id: number;
+	protected callbacks: InternalCallback<TTimerType>[] = [];
+	protected history: TimerHistory = { events: [] };
+	protected unpausedAt: DOMHighResTimeStamp | undefined;
+	protected pausedAt: DOMHighResTimeStamp;
+	protected elapsedMs: number = 0;
+	protected timeouts: Map<string, number | NodeJS.Timeout> = new Map();
+	protected intervals: Map<string, number | NodeJS.Timeout> = new Map();
+	protected rafs: Map<string, number> = new Map();
+	protected callbackIdSeeds: Record<string, number> = {};
+	protected callbackNames: Record<string, Set<string>> = {};
+	protected lib: TimerShims;
+	protected disposed: boolean = false;
+	protected speed: number;
+	protected name: string;
+	protected historyRetention: HistoryRetentionPolicy;
+	protected undoLimit: number;
+	protected undoStack: TimerAdjustment[] = [];
+	protected redoStack: TimerAdjustment[] = [];
+	private undoSuspended: number = 0;
+	protected firedOnceCallbacks: InternalCallback<TTimerType>[] = [];
+	protected linkedChildren: Set<SuperTimerBase<any>> = new Set();
+	protected link:
+		| {
+				parent: SuperTimerBase<any>;
+				followTimeChanges: boolean;
+				relativeSpeed: number;
+
+				// True when this timer was running, or was asked to run, while the parent was paused.
+				heldByParent: boolean;
+		  }
+		| undefined;
+	protected listeners: Map<TimerEventType, Set<{ listener: TimerEventListener<TTimerType, any>; once: boolean }>> =
+		new Map();
+
+	constructor(options: SuperTimerOptionsBase<TTimerType> = {}) {
+		this.id = timerId++;
+		const defaultedShims = { ...defaultOptions.shims, ...options.shims };
+		const defaultedOptions: SuperTimerOptionsInternal<TTimerType> = {
+			...defaultOptions,
+			name: `timer-${this.id}`,
+			...options,
+			shims: defaultedShims,
+		};
+		this.lib = defaultedShims;
+		this.pausedAt = this.lib.performance.now();
+		this.speed = defaultedOptions.timerSpeedMultiplier || 1.0;
+		this.name = defaultedOptions.name;
+		this.historyRetention = defaultedOptions.historyRetention;
+		this.undoLimit = defaultedOptions.undoLimit;
+		if (defaultedOptions.parent) {
+			const parent = defaultedOptions.parent.timer;
+			parent.checkDisposed();
+			this.link = {
+				parent,
+				followTimeChanges: defaultedOptions.parent.followTimeChanges ?? false,
+				relativeSpeed: this.speed,
+				heldByParent: false,
+			};
+			this.speed = parent.speed * this.speed;
+			parent.linkedChildren.add(this);
+		}
+		this.registerCallbacks(defaultedOptions.callbacks);
+	}
+
+	protected startCallbacks(callbacks: InternalCallback<TTimerType>[]) {
+		if (this.unpausedAt === undefined) {
+			return;
+		}
+
+		for (const callback of callbacks) {
+			switch (callback.type) {
+				case "checkpoint":
+				case "checkpoint-once":
+					this.handleCheckpointCallback(callback);
+					break;
+
+				case "tick-reset":
+					this.handleTickResetCallback(callback);
+					break;
+
+				case "tick":
+					this.handleTickCallback(callback);
+					break;
+
+				case "recurrence":
+					this.handleRecurrenceCallback(callback);
+					break;
+			}
+		}
+	}
+
+	protected abstract executeCallback(callback: InternalCallback<TTimerType>): void;
+
+	/**
+	 * Discard events from the history that fall outside of the retention policy.
+	 */
+	protected pruneHistory() {
+		const { maxEvents, maxAgeMs } = this.historyRetention;
+		const events = this.history.events;
+		if (maxAgeMs !== undefined) {
+			const cutoff = new this.lib.Date().getTime() - maxAgeMs;
+			const firstKept = events.findIndex(e => e.date.getTime() >= cutoff);
+			events.splice(0, firstKept >= 0 ? firstKept : events.length);
+		}
+		if (maxEvents !== undefined && events.length > maxEvents) {
+			events.splice(0, events.length - maxEvents);
+		}
+	}
+
+	/**
+	 * Add an event to the timer history and notify any listeners
+	 * registered for that event type.
+	 * @param event
+	 */
+	protected logEvent(event: TimerEvent) {
+		const { eventTypes } = this.historyRetention;
+		if (!eventTypes || eventTypes.includes(event.event)) {
+			this.history.events.push(event);
+			this.pruneHistory();
+		}
+
+		const listenersForType = this.listeners.get(event.event);
+		if (!listenersForType) {
+			return;
+		}
+		for (const entry of [...listenersForType]) {
+			if (entry.once) {
+				listenersForType.delete(entry);
+			}
+			entry.listener(event, this as unknown as TTimerType);
+		}
+	}
+
+	/**
+	 * Log an execution of the given callback to the history, if the
+	 * callback has opted in with `logExecutions`.
+	 */
+	protected logExecution(
+		callback: InternalCallback<TTimerType>,
+		eventType: CallbackEventType,
+		scheduledMs: number,
+		actualMs: number,
+	) {
+		if (!callback.logExecutions) {
+			return;
+		}
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: eventType,
+			elapsedMs: actualMs,
+			data: {
+				callbackName: callback.name,
+				scheduledMs,
+				actualMs,
+				latenessMs: actualMs - scheduledMs,
+			},
+		});
+	}
+
+	/**
+	 * Invoke the callback, logging the execution if requested.
+	 * @param callback
+	 * @param eventType The type of event to log. If undefined, nothing is logged.
+	 * @param sourceCallback The registered callback, if `callback` is a one-off wrapper of it
+	 * @param scheduledMs The elapsed time at which the callback was scheduled to run.
+	 * Defaults to the current elapsed time.
+	 */
+	protected createEventAndInvokeCallback(
+		callback: InternalCallback<TTimerType>,
+		eventType: CallbackEventType | undefined,
+		sourceCallback?: InternalCallback<TTimerType>,
+		scheduledMs?: number,
+	) {
+		const elapsedMs = this.getElapsedMs();
+		const invoke = () => {
+			if (eventType) {
+				this.logExecution(callback, eventType, scheduledMs ?? elapsedMs, this.getElapsedMs());
+			}
+			(sourceCallback ?? callback).lastExecutionMs = elapsedMs;
+			this.executeCallback(callback);
+		};
+		if (callback.requireAnimationFrame) {
+			const rafId = this.lib.requestAnimationFrame(invoke);
+			this.rafs.set(callback.name, rafId);
+		} else {
+			invoke();
+		}
+	}
+
+	protected handleRafCallback(callback: InternalCallback<TTimerType>) {
+		const elapsedMs = this.getElapsedMs();
+		if (this.unpausedAt !== undefined) {
 			callback.lastExecutionMs = elapsedMs;
-			this.history.events.push({
-				date: new this.lib.Date(),
-				event: "tick",
-				elapsedMs,
-				data: callback.name,
-			});
+			this.logExecution(callback, "tick", elapsedMs, elapsedMs);
 			this.executeCallback(callback);
 			const rafId = this.lib.requestAnimationFrame(() => {
 				this.handleRafCallback(callback);
@@ -394,7 +1216,7 @@ abstract class SuperTimerBase<TTimerType> {
 
 	protected handleCheckpointCallback(
 		callback: InternalCallback<TTimerType>,
-		eventType: TimerEventType = "checkpoint",
+		eventType: CallbackEventType = "checkpoint",
 		sourceCallback?: InternalCallback<TTimerType>,
 	) {
 		const elapsedMs = this.getElapsedMs();
@@ -404,8 +1226,9 @@ abstract class SuperTimerBase<TTimerType> {
 		const timeout = this.lib.setTimeout(() => {
 			if (callback.type === "checkpoint-once") {
 				this.removeCallbacks([callback.name]);
+				this.firedOnceCallbacks.push(callback);
 			}
-			this.createEventAndInvokeCallback(callback, eventType, sourceCallback);
+			this.createEventAndInvokeCallback(callback, eventType, sourceCallback, callback.timeMs);
 		}, msUntilCheckpoint);
 		this.timeouts.set(callback.name, timeout);
 	}
@@ -420,8 +1243,51 @@ abstract class SuperTimerBase<TTimerType> {
 			});
 			this.rafs.set(callback.name, rafId);
 		} else {
+			let scheduledMs = this.getElapsedMs();
+			let previousActualMs = scheduledMs;
 			const interval = this.lib.setInterval(() => {
-				this.createEventAndInvokeCallback(callback, "tick");
+				// Compare against the previous execution rather than the schedule so that
+				// ordinary interval drift is not mistaken for missed executions. An
+				// interval of zero runs as often as possible, so it cannot miss any.
+				const actualMs = this.getElapsedMs();
+				const missedCount =
+					callback.timeMs > 0
+						? Math.max(0, Math.floor((actualMs - previousActualMs) / callback.timeMs) - 1)
+						: 0;
+				previousActualMs = actualMs;
+				if (missedCount === 0) {
+					scheduledMs += callback.timeMs;
+					this.createEventAndInvokeCallback(callback, "tick", undefined, scheduledMs);
+					return;
+				}
+
+				// Internal callbacks, whose names begin with "!", stay out of the history
+				if (!callback.name.startsWith("!")) {
+					this.logEvent({
+						date: new this.lib.Date(),
+						event: "missed",
+						elapsedMs: actualMs,
+						data: {
+							callbackName: callback.name,
+							missedCount,
+							firstScheduledMs: scheduledMs + callback.timeMs,
+							lastScheduledMs: scheduledMs + missedCount * callback.timeMs,
+							catchUp: callback.catchUp ?? "fire-latest",
+						},
+					});
+				}
+				const dueTimes = Array.from(
+					{ length: missedCount + 1 },
+					(_, i) => scheduledMs + (i + 1) * callback.timeMs,
+				);
+				scheduledMs = dueTimes[dueTimes.length - 1];
+				if (callback.catchUp === "fire-all") {
+					for (const dueMs of dueTimes) {
+						this.createEventAndInvokeCallback(callback, "tick", undefined, dueMs);
+					}
+				} else if (callback.catchUp !== "skip") {
+					this.createEventAndInvokeCallback(callback, "tick", undefined, scheduledMs);
+				}
 			}, callback.timeMs / this.speed);
 			this.intervals.set(callback.name, interval);
 		}
@@ -458,6 +1324,25 @@ abstract class SuperTimerBase<TTimerType> {
 		}
 	}
 
+	protected handleRecurrenceCallback(callback: InternalCallback<TTimerType>) {
+		const nowMs = new this.lib.Date().getTime();
+		const occurrenceMs = nextOccurrence(callback.rule!, nowMs, callback.timeZone);
+		if (occurrenceMs === undefined) return;
+
+		// Long delays are split up, since timeouts longer than about 24.8 days fire immediately.
+		const timeout = this.lib.setTimeout(
+			() => {
+				// The wall clock may have been changed since the timeout was scheduled
+				if (new this.lib.Date().getTime() >= occurrenceMs) {
+					this.createEventAndInvokeCallback(callback, "recurrence");
+				}
+				this.handleRecurrenceCallback(callback);
+			},
+			Math.min(occurrenceMs - nowMs, MAX_TIMEOUT_MS),
+		);
+		this.timeouts.set(callback.name, timeout);
+	}
+
 	protected clearTimeouts(excludeIntervals = false) {
 		for (const timeout of this.timeouts.values()) {
 			this.lib.clearTimeout(timeout);
@@ -479,7 +1364,7 @@ abstract class SuperTimerBase<TTimerType> {
 	protected executeUpdateCallbacks() {
 		for (const callback of this.callbacks) {
 			if (callback.executeOnUpdate) {
-				this.createEventAndInvokeCallback(callback, callback.type === "checkpoint" ? "checkpoint" : "tick");
+				this.createEventAndInvokeCallback(callback, updateEventTypes[callback.type]);
 			}
 		}
 	}
@@ -494,7 +1379,7 @@ abstract class SuperTimerBase<TTimerType> {
 	 * Register new callbacks to execute on this timer.
 	 * @param callbacks
 	 */
-	public registerCallbacks(callbacks: SuperTimerCallbackBase<TTimerType>[]) {
+	public registerCallbacks(callbacks: TimerCallbackDefinition<TTimerType>[]) {
 		this.checkDisposed();
 		const callbacksToStart: InternalCallback<TTimerType>[] = [];
 		for (const callback of callbacks) {
@@ -511,18 +1396,31 @@ abstract class SuperTimerBase<TTimerType> {
 				);
 			}
 			const elapsedMs = this.getElapsedMs();
+			const { timeMs, disableTickDriftCompensation, catchUp, remainingMs, rule, timeZone } = callback as Partial<
+				Omit<InternalCallback<TTimerType>, "timeMs" | "remainingMs">
+			> & { timeMs?: Duration; remainingMs?: Duration };
 			const internalCallback: InternalCallback<TTimerType> = {
 				name: callbackName,
 				callback: callback.callback,
-				timeMs: callback.timeMs,
+				timeMs: durationToMs(timeMs ?? 0),
 				type: callback.type,
 				requireAnimationFrame: callback.requireAnimationFrame ?? false,
 				executeOnUpdate: callback.executeOnUpdate ?? false,
 				logExecutions: callback.logExecutions ?? false,
 				lastExecutionMs: elapsedMs,
 				registeredAt: elapsedMs,
-				disableTickDriftCompensation: callback.disableTickDriftCompensation ?? false,
+				disableTickDriftCompensation: disableTickDriftCompensation ?? false,
+				catchUp: catchUp ?? "fire-latest",
 			};
+			if (remainingMs !== undefined) {
+				internalCallback.remainingMs = durationToMs(remainingMs);
+			}
+			if (callback.type === "recurrence") {
+				// Throws if the rule or time zone is invalid
+				parseRecurrenceRule(callback.rule, callback.timeZone);
+				internalCallback.rule = rule;
+				internalCallback.timeZone = timeZone;
+			}
 			this.callbacks.push(internalCallback);
 			callbacksToStart.push(internalCallback);
 
@@ -559,10 +1457,9 @@ abstract class SuperTimerBase<TTimerType> {
 			if (index >= 0) {
 				this.callbacks.splice(index, 1);
 			}
-			this.callbackNames["checkpoint"]?.delete(name);
-			this.callbackNames["checkpoint-once"]?.delete(name);
-			this.callbackNames["tick"]?.delete(name);
-			this.callbackNames["tick-reset"]?.delete(name);
+			for (const namesForType of Object.values(this.callbackNames)) {
+				namesForType.delete(name);
+			}
 		}
 	}
 
@@ -583,7 +1480,13 @@ abstract class SuperTimerBase<TTimerType> {
 		this.checkDisposed();
 
 		// No-op if already unpaused
-		if (this.unpausedAt) {
+		if (this.unpausedAt !== undefined) {
+			return;
+		}
+
+		// A linked timer waits for its parent to be unpaused
+		if (this.link && this.link.parent.isPaused()) {
+			this.link.heldByParent = true;
 			return;
 		}
 
@@ -592,7 +1495,7 @@ abstract class SuperTimerBase<TTimerType> {
 
 		// Add the unpause event to the history
 		const elapsedMs = this.getElapsedMs();
-		this.history.events.push({
+		this.logEvent({
 			date: new this.lib.Date(),
 			event: "unpause",
 			elapsedMs: elapsedMs,
@@ -603,6 +1506,10 @@ abstract class SuperTimerBase<TTimerType> {
 
 		// Run any callbacks that need to execute on update
 		this.executeUpdateCallbacks();
+
+		for (const child of this.linkedChildren) {
+			child.handleParentUnpause();
+		}
 	}
 
 	/**
@@ -619,8 +1526,14 @@ abstract class SuperTimerBase<TTimerType> {
 	public pause(suppressUpdateCallbacks = false): boolean {
 		this.checkDisposed();
 
+		// An explicit pause cancels any pending unpause of a linked timer. Internal
+		// pauses that are followed by an unpause suppress update callbacks.
+		if (this.link && !suppressUpdateCallbacks) {
+			this.link.heldByParent = false;
+		}
+
 		// No-op if already paused
-		if (!this.unpausedAt) {
+		if (this.unpausedAt === undefined) {
 			return false;
 		}
 
@@ -632,33 +1545,203 @@ abstract class SuperTimerBase<TTimerType> {
 		this.elapsedMs += elapsedSinceLastPause;
 		this.unpausedAt = undefined;
 
-		// Add a pause event to the history
-		this.history.events.push({
+		this.clearTimeouts();
+
+		// Add a pause event to the history. This happens after timeouts are cleared
+		// so that a "pause" listener that unpauses the timer is not undone.
+		this.logEvent({
 			date: new this.lib.Date(),
 			event: "pause",
 			elapsedMs: this.elapsedMs,
 		});
 
-		this.clearTimeouts();
-
 		// Run any callbacks that need to execute on update
 		if (!suppressUpdateCallbacks) {
 			this.executeUpdateCallbacks();
 		}
 
+		for (const child of this.linkedChildren) {
+			child.handleParentPause();
+		}
+
 		return true;
 	}
 
 	/**
-	 * Cancels any outstanding timeouts/intervals. Timer cannot be reused
-	 * after disposal.
+	 * Pause this linked timer along with its parent, remembering to
+	 * unpause it when the parent is unpaused.
+	 */
+	protected handleParentPause() {
+		if (this.link && !this.isDisposed() && !this.isPaused()) {
+			this.pause();
+			this.link.heldByParent = true;
+		}
+	}
+
+	protected handleParentUnpause() {
+		if (this.link?.heldByParent && !this.isDisposed()) {
+			this.link.heldByParent = false;
+			this.unpause();
+		}
+	}
+
+	protected handleParentSpeedChange() {
+		if (this.link && !this.isDisposed()) {
+			this.applySpeedMultiplier(this.link.parent.speed * this.link.relativeSpeed);
+		}
+	}
+
+	protected handleParentReset() {
+		if (this.link?.followTimeChanges && !this.isDisposed()) {
+			this.reset();
+		}
+	}
+
+	protected handleParentTimeAdjustment(parentMs: number) {
+		if (!this.link?.followTimeChanges || this.isDisposed()) {
+			return;
+		}
+		this.adjustTime("addTime", parentMs * this.link.relativeSpeed, this.getElapsedMs(), false);
+	}
+
+	/**
+	 * Reset the timer to zero elapsed time, which restores the full
+	 * duration of a countdown. The timer is left paused unless
+	 * `autoStart` is set. Tick callbacks restart their schedule from
+	 * zero.
+	 * @param options
+	 */
+	public reset(options: TimerResetOptions = {}) {
+		this.checkDisposed();
+		const { keepCallbacks = true, keepHistory = true, autoStart = false } = options;
+		const previousElapsedMs = this.getElapsedMs();
+
+		const wasRunning = !this.isPaused();
+		this.undoStack = [];
+		this.redoStack = [];
+		this.clearTimeouts();
+		this.unpausedAt = undefined;
+		this.pausedAt = this.lib.performance.now();
+		this.elapsedMs = 0;
+		for (const child of this.linkedChildren) {
+			if (wasRunning) {
+				child.handleParentPause();
+			}
+			child.handleParentReset();
+		}
+
+		if (!keepHistory) {
+			this.history = { events: [] };
+		}
+
+		const firedOnceCallbacks = this.firedOnceCallbacks;
+		this.firedOnceCallbacks = [];
+		if (keepCallbacks) {
+			// Skip any that have since been replaced by a new callback with the same name
+			this.registerCallbacks(
+				firedOnceCallbacks.filter(
+					c => !this.callbackNames[c.type]?.has(c.name),
+				) as TimerCallbackDefinition<TTimerType>[],
+			);
+		} else {
+			this.removeAllCallbacks();
+		}
+		for (const callback of this.callbacks) {
+			callback.lastExecutionMs = 0;
+			callback.registeredAt = 0;
+		}
+
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: "reset",
+			elapsedMs: 0,
+			data: { previousElapsedMs },
+		});
+
+		// Run any callbacks that need to execute on update
+		this.executeUpdateCallbacks();
+
+		if (autoStart) {
+			this.unpause();
+		}
+	}
+
+	/**
+	 * Listen for events of the given type. The listener is called each time
+	 * an event of that type is added to the timer history.
+	 * @param eventType
+	 * @param listener
+	 * @returns A function that removes the listener
+	 */
+	public on<TEventType extends TimerEventType>(
+		eventType: TEventType,
+		listener: TimerEventListener<TTimerType, TEventType>,
+	): () => void {
+		return this.addListener(eventType, listener, false);
+	}
+
+	/**
+	 * Like `on`, but the listener is removed after it is called once.
+	 * @param eventType
+	 * @param listener
+	 * @returns A function that removes the listener
+	 */
+	public once<TEventType extends TimerEventType>(
+		eventType: TEventType,
+		listener: TimerEventListener<TTimerType, TEventType>,
+	): () => void {
+		return this.addListener(eventType, listener, true);
+	}
+
+	/**
+	 * Remove a listener previously registered with `on` or `once`.
+	 * @param eventType
+	 * @param listener
+	 */
+	public off<TEventType extends TimerEventType>(
+		eventType: TEventType,
+		listener: TimerEventListener<TTimerType, TEventType>,
+	) {
+		const listenersForType = this.listeners.get(eventType);
+		if (!listenersForType) {
+			return;
+		}
+		for (const entry of listenersForType) {
+			if (entry.listener === listener) {
+				listenersForType.delete(entry);
+			}
+		}
+	}
+
+	private addListener(eventType: TimerEventType, listener: TimerEventListener<TTimerType, any>, once: boolean) {
+		this.checkDisposed();
+		if (!this.listeners.has(eventType)) {
+			this.listeners.set(eventType, new Set());
+		}
+		this.listeners.get(eventType)!.add({ listener, once });
+		return () => this.off(eventType, listener);
+	}
+
+	/**
+	 * Cancels any outstanding timeouts/intervals and removes all event
+	 * listeners. Timer cannot be reused after disposal.
 	 */
 	public dispose(): void {
 		this.clearTimeouts();
+		this.listeners.clear();
+
+		// Linked timers become independent of a disposed parent
+		for (const child of this.linkedChildren) {
+			child.link = undefined;
+		}
+		this.linkedChildren.clear();
+		this.link?.parent.linkedChildren.delete(this);
+		this.link = undefined;
+
 		this.disposed = true;
 	}
 
-	private _addTime(ms: number, suppressCallbacks: boolean) {
+	protected _addTime(ms: number, suppressCallbacks: boolean) {
 		this.clearTimeouts(true);
 		const wasPaused = this.pause(true);
 		const oldElapsed = this.getElapsedMs();
@@ -668,15 +1751,19 @@ abstract class SuperTimerBase<TTimerType> {
 			// Sort to ensure that checkpoints are executed in the correct order
 			for (const callback of sortedCallbacks) {
 				if (callback.timeMs > oldElapsed && callback.timeMs <= oldElapsed + ms) {
-					this.createEventAndInvokeCallback(callback, "checkpoint");
+					this.createEventAndInvokeCallback(callback, "checkpoint", undefined, callback.timeMs);
 				}
 			}
 		}
+		for (const child of this.linkedChildren) {
+			child.handleParentTimeAdjustment(ms);
+		}
+
 		// Manually run any callbacks that include the flag to run when time is adjusted
 		this.executeUpdateCallbacks();
 
 		// Check that the timer is not running in case the callback started it already.
-		if (!this.unpausedAt && wasPaused) {
+		if (this.unpausedAt === undefined && wasPaused) {
 			this.unpause(true);
 		}
 	}
@@ -690,43 +1777,151 @@ abstract class SuperTimerBase<TTimerType> {
 	 * This method adds "real" time to the timer, meaning, if a speed
 	 * multiplier other than 1.0 is set, the effective time added will be
 	 * ms / speedMultiplier.
-	 * @param ms
+	 * @param time Milliseconds, or a duration string such as "1:30"
 	 * @param suppressCallbacks
 	 */
-	protected addTime(ms: number, suppressCallbacks: boolean = false) {
+	protected addTime(time: Duration, suppressCallbacks: boolean = false) {
 		this.checkDisposed();
-		const elapsedMs = this.getElapsedMs();
-
-		this.history.events.push({
-			date: new this.lib.Date(),
-			event: "addTime",
-			elapsedMs: elapsedMs,
-			data: `${ms}ms will be added to elapsedMs.`,
-		});
-
-		this._addTime(ms, suppressCallbacks);
+		this.recordAdjustment(this.adjustTime("addTime", durationToMs(time), this.getElapsedMs(), suppressCallbacks));
 	}
 
 	/**
 	 * Set the elapsed time to a given value. If suppressCallbacks is
 	 * false, if this update causes the timer to move forward through
 	 * any checkpoint callbacks, they will be executed.
-	 * @param ms
+	 * @param time Milliseconds, or a duration string such as "1:30"
 	 * @param suppressCallbacks
 	 */
-	protected setTime(ms: number, suppressCallbacks: boolean = false) {
+	protected setTime(time: Duration, suppressCallbacks: boolean = false) {
 		this.checkDisposed();
+		this.recordAdjustment(this.moveTo(durationToMs(time), suppressCallbacks));
+	}
+
+	/**
+	 * Set the elapsed time without recording it for undo. For adjustments
+	 * the timers make themselves, e.g. to sync or complete.
+	 * @returns The adjustment
+	 */
+	protected moveTo(ms: number, suppressCallbacks: boolean): TimerAdjustment {
 		const elapsedMs = this.getElapsedMs();
+		return this.adjustTime("setTime", ms - elapsedMs, elapsedMs, suppressCallbacks);
+	}
 
-		this.history.events.push({
+	/**
+	 * Log and apply a change to the elapsed time.
+	 * @returns The adjustment, for the undo stack
+	 */
+	private adjustTime(
+		type: "addTime" | "setTime",
+		deltaMs: number,
+		fromMs: number,
+		suppressCallbacks: boolean,
+	): TimerAdjustment {
+		const toMs = fromMs + deltaMs;
+		this.logEvent({
 			date: new this.lib.Date(),
-			event: "setTime",
-			elapsedMs: elapsedMs,
-			data: `elapsedMs will be set to ${ms}.`,
+			event: type,
+			elapsedMs: fromMs,
+			data: { deltaMs, fromMs, toMs },
 		});
+		this._addTime(deltaMs, suppressCallbacks);
+		return { type, deltaMs, fromMs, toMs, suppressCallbacks };
+	}
 
-		const timeToAdd = ms - elapsedMs;
-		this._addTime(timeToAdd, suppressCallbacks);
+	private recordAdjustment(adjustment: TimerAdjustment) {
+		const isNoOp =
+			adjustment.type === "setSpeed" ? adjustment.fromSpeed === adjustment.toSpeed : adjustment.deltaMs === 0;
+		if (isNoOp || this.undoSuspended > 0) {
+			return;
+		}
+		this.undoStack.push(adjustment);
+		if (this.undoStack.length > this.undoLimit) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	/**
+	 * Revert the most recent manual adjustment made with setTime, addTime,
+	 * or setSpeedMultiplier (or their countdown equivalents). Time
+	 * adjustments are reverted by removing the time they added, so time
+	 * that has elapsed since is kept. Adjustments the timer makes itself,
+	 * e.g. when completing, skipping a phase, or syncing, are not undone.
+	 * @returns False if there is nothing to undo
+	 */
+	public undo(): boolean {
+		this.checkDisposed();
+		const adjustment = this.undoStack.pop();
+		if (!adjustment) {
+			return false;
+		}
+		this.replayAdjustment(adjustment, "undo");
+		this.redoStack.push(adjustment);
+		return true;
+	}
+
+	/**
+	 * Reapply the most recently undone adjustment.
+	 * @returns False if there is nothing to redo
+	 */
+	public redo(): boolean {
+		this.checkDisposed();
+		const adjustment = this.redoStack.pop();
+		if (!adjustment) {
+			return false;
+		}
+		this.replayAdjustment(adjustment, "redo");
+		this.undoStack.push(adjustment);
+		return true;
+	}
+
+	public canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	public canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	/**
+	 * Make adjustments that cannot be undone, e.g. an increment applied
+	 * by a game clock rather than by the user.
+	 * @param action Makes the adjustments
+	 */
+	public withoutUndo(action: () => void) {
+		this.undoSuspended++;
+		try {
+			action();
+		} finally {
+			this.undoSuspended--;
+		}
+	}
+
+	// Logs an "undo" or "redo" event describing the adjustment, followed by
+	// the usual event for the change that reverts or reapplies it.
+	private replayAdjustment(adjustment: TimerAdjustment, direction: "undo" | "redo") {
+		const elapsedMs = this.getElapsedMs();
+		const data: TimerAdjustmentData =
+			adjustment.type === "setSpeed"
+				? adjustment
+				: {
+						type: adjustment.type,
+						deltaMs: adjustment.deltaMs,
+						fromMs: adjustment.fromMs,
+						toMs: adjustment.toMs,
+				  };
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: direction,
+			elapsedMs,
+			data,
+		});
+		if (adjustment.type === "setSpeed") {
+			this.setRelativeSpeed(direction === "undo" ? adjustment.fromSpeed : adjustment.toSpeed);
+		} else {
+			const deltaMs = direction === "undo" ? -adjustment.deltaMs : adjustment.deltaMs;
+			this.adjustTime("addTime", deltaMs, elapsedMs, adjustment.suppressCallbacks);
+		}
 	}
 
 	/**
@@ -739,7 +1934,7 @@ abstract class SuperTimerBase<TTimerType> {
 
 		// If the timer is paused, we just return the total
 		// elapsed time
-		if (!this.unpausedAt) {
+		if (this.unpausedAt === undefined) {
 			return Math.round(this.elapsedMs);
 		}
 
@@ -749,76 +1944,305 @@ abstract class SuperTimerBase<TTimerType> {
 		return Math.round(this.elapsedMs + elapsedSinceLastPause);
 	}
 
+	/**
+	 * Format the elapsed time, e.g. "01:05" or "1m 5s". See `formatDuration`.
+	 * @param patternOrOptions
+	 */
+	public format(patternOrOptions?: string | FormatDurationOptions): string {
+		return formatDuration(this.getElapsedMs(), patternOrOptions);
+	}
+
+	/**
+	 * Get a copy of the events in the timer history that match the given
+	 * query. Unlike getState, only the matching events are copied.
+	 * @param query
+	 */
+	public getHistory(query: TimerHistoryQuery = {}): TimerEvent[] {
+		this.checkDisposed();
+		this.pruneHistory();
+		const since = query.since instanceof Date ? query.since.getTime() : query.since;
+		let events = this.history.events.filter(
+			e => (since === undefined || e.date.getTime() >= since) && (!query.types || query.types.includes(e.event)),
+		);
+		if (query.limit !== undefined) {
+			events = query.limit > 0 ? events.slice(-query.limit) : [];
+		}
+		return globalThis.structuredClone?.(events) ?? events.map(e => ({ ...e }));
+	}
+
+	/**
+	 * Indicates whether or not the timer is paused. Cheaper than
+	 * getState, which copies the full history.
+	 */
+	public isPaused(): boolean {
+		this.checkDisposed();
+		return this.unpausedAt === undefined;
+	}
+
+	/**
+	 * Gets the name of the timer.
+	 */
+	public getName(): string {
+		return this.name;
+	}
+
+	/**
+	 * Indicates whether or not the timer has been disposed.
+	 */
+	public isDisposed(): boolean {
+		return this.disposed;
+	}
+
 	public getState(): TimerState {
 		this.checkDisposed();
+		this.pruneHistory();
 
 		// Try to clone history so it can't be modified
 		const history = globalThis.structuredClone?.(this.history) ?? this.history;
 		return {
 			timerId: this.id,
 			elapsedMs: this.getElapsedMs(),
-			isPaused: !this.unpausedAt,
+			isPaused: this.unpausedAt === undefined,
 			history,
 		};
 	}
 
+	/**
+	 * Capture the current state of the timer in a JSON-safe object that can
+	 * later be passed to `restore` to recreate the timer, e.g. after a page
+	 * reload or in another process.
+	 */
+	public snapshot(): TimerSnapshot {
+		this.checkDisposed();
+		this.pruneHistory();
+		return {
+			version: 1,
+			name: this.name,
+			elapsedMs: this.getElapsedMs(),
+			isPaused: this.unpausedAt === undefined,
+			speed: this.speed,
+			savedAt: new this.lib.Date().getTime(),
+			callbacks: this.callbacks
+				.filter(c => !c.name.startsWith("!"))
+				.map(({ callback, ...metadata }) => ({ ...metadata })),
+			history: {
+				events: this.history.events.map(e => ({ ...e, date: e.date.toISOString() })),
+			},
+		};
+	}
+
+	/**
+	 * Alias for snapshot, so that timers can be passed directly to JSON.stringify.
+	 */
+	public toJSON(): TimerSnapshot {
+		return this.snapshot();
+	}
+
+	/**
+	 * Capture the elapsed time, paused state, and speed of the timer, along
+	 * with the current wall-clock time, so another timer can mirror it.
+	 */
+	public getSyncState(): TimerSyncState {
+		this.checkDisposed();
+		return {
+			elapsedMs: this.getElapsedMs(),
+			isPaused: this.isPaused(),
+			speed: this.getSpeedMultiplier(),
+			capturedAt: new this.lib.Date().getTime(),
+		};
+	}
+
+	/**
+	 * Make this timer mirror a state captured from another timer. If the
+	 * other timer was running, the wall-clock time that has passed since the
+	 * state was captured is accounted for. Checkpoints passed by moving
+	 * forward are executed.
+	 * @param state
+	 * @param toleranceMs The elapsed time is only adjusted if it differs from
+	 * the other timer's by more than this amount, to avoid constant small
+	 * adjustments.
+	 */
+	public applySyncState(state: TimerSyncState, toleranceMs: number = 0) {
+		this.checkDisposed();
+		const sinceCapturedMs = state.isPaused ? 0 : Math.max(0, new this.lib.Date().getTime() - state.capturedAt);
+		const targetMs = state.elapsedMs + sinceCapturedMs * state.speed;
+
+		// Pause first so that no time passes while adjusting
+		if (state.isPaused) {
+			this.pause();
+		}
+		// Corrections are not the user's to undo, so these bypass the public setters
+		if (this.getSpeedMultiplier() !== state.speed) {
+			this.setRelativeSpeed(state.speed);
+		}
+		if (Math.abs(this.getElapsedMs() - targetMs) > toleranceMs) {
+			this.moveTo(targetMs, false);
+		}
+		if (!state.isPaused) {
+			this.unpause();
+		}
+	}
+
+	/**
+	 * Apply a snapshot to a newly created, paused timer. If the timer was
+	 * running when the snapshot was taken, the wall-clock time that has passed
+	 * since then is added, executing any checkpoints that were passed.
+	 * @param snapshot
+	 * @param callbacks
+	 */
+	protected applySnapshot(snapshot: TimerSnapshot, callbacks: Record<string, TimerCallback<TTimerType>>) {
+		const { eventTypes } = this.historyRetention;
+		this.history = {
+			events: upgradeTimerEvents(snapshot.history.events)
+				.filter(e => !eventTypes || eventTypes.includes(e.event))
+				.map(e => ({ ...e, date: new this.lib.Date(e.date) })),
+		};
+		this.pruneHistory();
+		this.elapsedMs = snapshot.elapsedMs;
+
+		for (const callbackSnapshot of snapshot.callbacks) {
+			const callback = callbacks[callbackSnapshot.name];
+			if (!callback) {
+				continue;
+			}
+			this.registerCallbacks([{ ...callbackSnapshot, callback } as TimerCallbackDefinition<TTimerType>]);
+			const internalCallback = this.callbacks[this.callbacks.length - 1];
+			internalCallback.lastExecutionMs = callbackSnapshot.lastExecutionMs;
+			internalCallback.registeredAt = callbackSnapshot.registeredAt;
+
+			// Make sure generated names of future callbacks don't collide with restored ones.
+			const generatedId = callbackSnapshot.name.match(new RegExp(`^${callbackSnapshot.type}-(\\d+)$`));
+			if (generatedId) {
+				this.callbackIdSeeds[callbackSnapshot.type] = Math.max(
+					this.callbackIdSeeds[callbackSnapshot.type],
+					Number(generatedId[1]) + 1,
+				);
+			}
+		}
+
+		if (!snapshot.isPaused) {
+			const storedForMs = Math.max(0, new this.lib.Date().getTime() - snapshot.savedAt);
+			this._addTime(storedForMs * snapshot.speed, false);
+			this.unpause();
+		}
+	}
+
+	/**
+	 * Gets the timer speed multiplier. For a linked timer, this is the
+	 * effective speed, i.e. the parent's speed times its own.
+	 */
+	public getSpeedMultiplier(): number {
+		return this.speed;
+	}
+
 	/**
 	 * Sets the timer speed multiplier. Calling this function takes effect
 	 * immediately, rescheduling any future callbacks to honor the new speed.
+	 * For a linked timer, the speed is relative to the parent's speed.
 	 * @param speed
 	 */
 	public setSpeedMultiplier(speedMultiplier: number) {
+		const fromSpeed = this.link ? this.link.relativeSpeed : this.speed;
+		this.setRelativeSpeed(speedMultiplier);
+		this.recordAdjustment({ type: "setSpeed", fromSpeed, toSpeed: speedMultiplier });
+	}
+
+	private setRelativeSpeed(speedMultiplier: number) {
+		if (this.link) {
+			this.link.relativeSpeed = speedMultiplier;
+			this.applySpeedMultiplier(this.link.parent.speed * speedMultiplier);
+		} else {
+			this.applySpeedMultiplier(speedMultiplier);
+		}
+	}
+
+	private applySpeedMultiplier(speedMultiplier: number) {
 		if (speedMultiplier !== this.speed) {
+			const fromSpeed = this.speed;
 			// If the timer is running, we need to pause, change the speed, and resume.
 			// This will cause callbacks to be rescheduled for the new speed.
 			let shouldUnpause = false;
-			if (this.unpausedAt) {
+			if (this.unpausedAt !== undefined) {
 				this.pause();
 				shouldUnpause = true;
 			}
 			this.speed = speedMultiplier;
-			this.history.events.push({
+			this.logEvent({
 				date: new this.lib.Date(),
 				event: "setSpeed",
 				elapsedMs: this.elapsedMs,
-				data: speedMultiplier,
+				data: { fromSpeed, toSpeed: speedMultiplier },
 			});
 			if (shouldUnpause) {
 				this.unpause();
 			}
+			for (const child of this.linkedChildren) {
+				child.handleParentSpeedChange();
+			}
 		}
 	}
 }
 
 export class SuperTimer extends SuperTimerBase<SuperTimer> {
+	/**
+	 * Recreate a timer from a snapshot created with `snapshot` or `toJSON`.
+	 * Callbacks are rebound by name using `options.callbacks`.
+	 * @param snapshot The snapshot object or its JSON string
+	 * @param options
+	 */
+	public static restore(snapshot: TimerSnapshot | string, options: SuperTimerRestoreOptions = {}) {
+		const parsed: TimerSnapshot = typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+		const { callbacks = {}, ...timerOptions } = options;
+		const timer = new SuperTimer({
+			name: parsed.name,
+			...timerOptions,
+			timerSpeedMultiplier: parsed.speed,
+		});
+		timer.applySnapshot(parsed, callbacks);
+		return timer;
+	}
+
 	protected executeCallback(callback: InternalCallback<SuperTimer>) {
 		callback.callback(this);
 	}
-	public addTime(ms: number, suppressCallbacks: boolean = false) {
-		super.addTime(ms, suppressCallbacks);
+	public addTime(time: Duration, suppressCallbacks: boolean = false) {
+		super.addTime(time, suppressCallbacks);
 	}
-	public setTime(ms: number, suppressCallbacks: boolean = false) {
-		super.setTime(ms, suppressCallbacks);
+	public setTime(time: Duration, suppressCallbacks: boolean = false) {
+		super.setTime(time, suppressCallbacks);
 	}
 }
 
 export class SuperCountdown extends SuperTimerBase<SuperCountdown> {
 	private completeTime: number;
+	private overtime: boolean;
+	private targetDate: number | undefined;
+	private resyncToleranceMs: number = 0;
+	// The wall-clock time at which an anchored countdown was paused
+	private wallClockPausedAt: number | undefined;
 	private completeCallbacks: Set<{ callback: (timer: SuperCountdown) => void; once: boolean }> = new Set();
 	constructor(
-		timeMs: number,
+		duration: Duration,
 		onComplete?: (timer: SuperCountdown) => void,
 		timerOptions: SuperCountdownOptions = {},
 	) {
-		super(timerOptions);
+		// Callbacks are registered once the complete time is known, since
+		// they may be relative to it.
+		const { callbacks = [], overtime = false, ...baseOptions } = timerOptions;
+		super(baseOptions);
+		const timeMs = durationToMs(duration);
 		this.completeTime = timeMs;
+		this.overtime = overtime;
 		this.registerCallbacks([
+			...callbacks,
 			{
 				type: "checkpoint",
 				timeMs: timeMs,
 				callback: (timer: SuperCountdown) => {
-					this.pause();
-					this.setTimeRemaining(0, true);
+					if (!this.overtime) {
+						this.pause();
+						this.moveTo(this.completeTime, true);
+					}
 
 					// Complete callbacks are run outside of the callback system of SuperTimer
 					// to ensure that they get run even when the timer is paused upon completion.
@@ -838,16 +2262,226 @@ export class SuperCountdown extends SuperTimerBase<SuperCountdown> {
 		}
 	}
 
+	/**
+	 * Recreate a countdown from a snapshot created with `snapshot` or `toJSON`.
+	 * Callbacks are rebound by name using `options.callbacks`.
+	 * @param snapshot The snapshot object or its JSON string
+	 * @param options
+	 */
+	public static restore(snapshot: TimerSnapshot | string, options: SuperCountdownRestoreOptions = {}) {
+		const parsed: TimerSnapshot = typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+		if (parsed.completeTime === undefined) {
+			throw new Error(`Snapshot of timer "${parsed.name}" is not a countdown snapshot.`);
+		}
+		const { callbacks = {}, onComplete, resyncIntervalMs, resyncToleranceMs, ...timerOptions } = options;
+		const countdown = new SuperCountdown(parsed.completeTime, onComplete, {
+			name: parsed.name,
+			overtime: parsed.overtime,
+			...timerOptions,
+			timerSpeedMultiplier: parsed.speed,
+		});
+		countdown.applySnapshot(parsed, callbacks);
+		if (parsed.targetDate !== undefined) {
+			// A countdown that was stored while paused is due later by the time it was stored
+			const storedForMs = parsed.isPaused ? new countdown.lib.Date().getTime() - parsed.savedAt : 0;
+			countdown.anchorToWallClock(parsed.targetDate + storedForMs, resyncIntervalMs, resyncToleranceMs);
+		}
+		return countdown;
+	}
+
+	/**
+	 * Create a running countdown that completes at the given wall-clock
+	 * date/time. Unlike other timers, which only measure the passage of
+	 * time, this countdown periodically compares itself against the wall
+	 * clock and corrects its elapsed time when they disagree, e.g. when
+	 * the system clock is adjusted or the machine wakes from sleep. Any
+	 * checkpoints passed by a correction are executed.
+	 *
+	 * Checkpoint callbacks may be given with `atDate` to run at a specific
+	 * wall-clock date/time.
+	 *
+	 * Pausing the countdown or adjusting its time moves the target date:
+	 * after a one minute pause, or `addTime(60000)`, the countdown
+	 * completes one minute later than it would have.
+	 *
+	 * If the date has already passed, the countdown is created done and
+	 * onComplete is not called.
+	 * @param date
+	 * @param onComplete
+	 * @param timerOptions
+	 */
+	public static until(
+		date: Date | number,
+		onComplete?: (timer: SuperCountdown) => void,
+		timerOptions: SuperCountdownUntilOptions = {},
+	) {
+		const { callbacks = [], resyncIntervalMs, resyncToleranceMs, ...countdownOptions } = timerOptions;
+		const targetDate = typeof date === "number" ? date : date.getTime();
+		const lib = { ...defaultOptions.shims, ...countdownOptions.shims };
+		const countdown = new SuperCountdown(targetDate - new lib.Date().getTime(), onComplete, countdownOptions);
+		countdown.anchorToWallClock(targetDate, resyncIntervalMs, resyncToleranceMs);
+		countdown.registerCallbacks(callbacks);
+		countdown.start();
+		return countdown;
+	}
+
+	private anchorToWallClock(targetDate: number, resyncIntervalMs = 1000, resyncToleranceMs = 250) {
+		this.targetDate = targetDate;
+		this.resyncToleranceMs = resyncToleranceMs;
+		if (this.isPaused()) {
+			this.wallClockPausedAt = new this.lib.Date().getTime();
+		}
+		this.registerCallbacks([
+			{
+				type: "tick-reset",
+				timeMs: resyncIntervalMs,
+				callback: () => this.resyncToWallClock(),
+				name: "!countdown-wall-clock-resync",
+			},
+		]);
+		this.resyncToWallClock();
+	}
+
+	/**
+	 * If the countdown has drifted from the wall clock by more than the
+	 * tolerance, move the elapsed time so that the time remaining matches
+	 * the target date again.
+	 */
+	private resyncToWallClock() {
+		if (this.targetDate === undefined || this.isPaused()) {
+			return;
+		}
+		const expectedRemainingMs = this.targetDate - new this.lib.Date().getTime();
+		const driftMs = this.getTimeRemaining() - expectedRemainingMs;
+		if (Math.abs(driftMs) <= this.resyncToleranceMs) {
+			return;
+		}
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: "resync",
+			elapsedMs: this.getElapsedMs(),
+			data: { driftMs },
+		});
+		// Bypass the override below, which would move the target date along
+		super._addTime(driftMs, false);
+	}
+
+	protected _addTime(ms: number, suppressCallbacks: boolean) {
+		// Adjustments move the target date, so that the next resync keeps them
+		if (this.targetDate !== undefined) {
+			this.targetDate -= ms;
+		}
+		super._addTime(ms, suppressCallbacks);
+	}
+
 	protected executeCallback(callback: InternalCallback<SuperCountdown>) {
 		callback.callback(this);
 	}
 
+	public snapshot(): TimerSnapshot {
+		const snapshot = super.snapshot();
+		let targetDate = this.targetDate;
+		if (targetDate !== undefined && this.wallClockPausedAt !== undefined) {
+			// Include the pause so far, as unpause would
+			targetDate += snapshot.savedAt - this.wallClockPausedAt;
+		}
+		return {
+			...snapshot,
+			completeTime: this.completeTime,
+			overtime: this.overtime,
+			...(targetDate !== undefined ? { targetDate } : {}),
+		};
+	}
+
+	/**
+	 * Register new callbacks to execute on this countdown. Checkpoints given
+	 * with `remainingMs` stay anchored to the end of the countdown: they run
+	 * when that much time remains, however the time is adjusted.
+	 * @param callbacks
+	 */
+	public registerCallbacks(callbacks: SuperCountdownCallback[]) {
+		super.registerCallbacks(
+			callbacks.map(c => {
+				if ("atDate" in c) {
+					if (this.targetDate === undefined) {
+						throw new Error(
+							`Countdown "${this.name}" is not anchored to the wall clock. Use SuperCountdown.until to create it.`,
+						);
+					}
+					const remainingMs =
+						this.targetDate - (typeof c.atDate === "number" ? c.atDate : c.atDate.getTime());
+					return { ...c, remainingMs, timeMs: this.completeTime - remainingMs };
+				}
+				if ("remainingMs" in c) {
+					const remainingMs = durationToMs(c.remainingMs);
+					return { ...c, remainingMs, timeMs: this.completeTime - remainingMs };
+				}
+				return c;
+			}),
+		);
+	}
+
+	/**
+	 * Register a callback to run when each of the given amounts of time
+	 * remain, e.g. `[60000, 10000, 5000]` to warn at one minute, ten
+	 * seconds, and five seconds before the end.
+	 * @param remainingMs
+	 * @param callback Receives the countdown and the amount of time remaining
+	 * that triggered the warning.
+	 * @returns The names of the registered callbacks, which can be passed to removeCallbacks
+	 */
+	public registerWarnings(
+		remainingMs: number[],
+		callback: (timer: SuperCountdown, remainingMs: number) => void,
+	): string[] {
+		const firstNewIndex = this.callbacks.length;
+		this.registerCallbacks(
+			remainingMs.map(ms => ({
+				type: "checkpoint",
+				remainingMs: ms,
+				callback: (timer: SuperCountdown) => callback(timer, ms),
+			})),
+		);
+		return this.callbacks.slice(firstNewIndex).map(c => c.name);
+	}
+
 	public unpause(): void {
-		if (!this.isDone()) {
+		if (this.overtime || !this.isDone()) {
 			super.unpause();
+			if (this.wallClockPausedAt !== undefined && this.targetDate !== undefined && !this.isPaused()) {
+				// The countdown did not run while paused, so it completes that much later
+				this.targetDate += new this.lib.Date().getTime() - this.wallClockPausedAt;
+				this.wallClockPausedAt = undefined;
+			}
+			this.resyncToWallClock();
 		}
 	}
 
+	public pause(suppressUpdateCallbacks = false): boolean {
+		const paused = super.pause(suppressUpdateCallbacks);
+		if (paused && this.targetDate !== undefined) {
+			this.wallClockPausedAt = new this.lib.Date().getTime();
+		}
+		return paused;
+	}
+
+	/**
+	 * Reset the countdown to its full duration. A countdown anchored to the
+	 * wall clock with `SuperCountdown.until` is re-anchored so that it
+	 * completes the full duration after it next starts.
+	 * @param options
+	 */
+	public reset(options: TimerResetOptions = {}) {
+		this.checkDisposed();
+		if (this.targetDate !== undefined) {
+			const now = new this.lib.Date().getTime();
+			this.targetDate = now + this.completeTime;
+			// Reset leaves the countdown paused, so unpausing moves the target date along
+			this.wallClockPausedAt = now;
+		}
+		super.reset(options);
+	}
+
 	/**
 	 * Register a callback to execute when the timer completes.
 	 *
@@ -859,19 +2493,421 @@ export class SuperCountdown extends SuperTimerBase<SuperCountdown> {
 		this.completeCallbacks.add({ callback, once });
 	}
 
-	public addTime(ms: number, suppressCallbacks = false) {
-		super.addTime(-ms, suppressCallbacks);
+	public addTime(time: Duration, suppressCallbacks = false) {
+		super.addTime(-durationToMs(time), suppressCallbacks);
 	}
 
-	public setTimeRemaining(ms: number, suppressCallbacks = false) {
-		super.setTime(this.completeTime - ms, suppressCallbacks);
+	public setTimeRemaining(time: Duration, suppressCallbacks = false) {
+		super.setTime(this.completeTime - durationToMs(time), suppressCallbacks);
 	}
 
 	public getTimeRemaining() {
 		return this.completeTime - super.getElapsedMs();
 	}
 
+	/**
+	 * Format the time remaining, e.g. "01:05" or "1m 5s". Rounds up by
+	 * default, so the countdown shows "00:00" only once it is done. See
+	 * `formatDuration`.
+	 * @param patternOrOptions
+	 */
+	public format(patternOrOptions: string | FormatDurationOptions = {}): string {
+		const options = typeof patternOrOptions === "string" ? { pattern: patternOrOptions } : patternOrOptions;
+		return formatDuration(this.getTimeRemaining(), { rounding: "ceil", ...options });
+	}
+
+	/**
+	 * Gets the total duration of the countdown.
+	 */
+	public getDuration() {
+		return this.completeTime;
+	}
+
+	/**
+	 * Change the total duration of the countdown without changing the
+	 * elapsed time. Elapsed-time checkpoints are unaffected, while
+	 * completion and checkpoints given with `remainingMs` move with the end
+	 * of the countdown.
+	 *
+	 * If the countdown has completed and the new duration leaves time
+	 * remaining, it is no longer done and may be started again. If the new
+	 * duration leaves no time remaining on a countdown that was not done,
+	 * it completes immediately.
+	 * @param duration Milliseconds, or a duration string such as "5m"
+	 */
+	public setDuration(duration: Duration) {
+		this.checkDisposed();
+		const ms = durationToMs(duration);
+		const wasDone = this.isDone();
+		const previousDurationMs = this.completeTime;
+		this.completeTime = ms;
+		if (this.targetDate !== undefined) {
+			this.targetDate += ms - previousDurationMs;
+		}
+
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: "setDuration",
+			elapsedMs: this.getElapsedMs(),
+			data: { previousDurationMs, durationMs: ms },
+		});
+
+		let completeCallback: InternalCallback<SuperCountdown> | undefined;
+		for (const callback of this.callbacks) {
+			if (callback.name === "!countdown-complete-internal") {
+				callback.timeMs = ms;
+				completeCallback = callback;
+			} else if (callback.remainingMs !== undefined) {
+				callback.timeMs = ms - callback.remainingMs;
+			} else {
+				continue;
+			}
+
+			// Reschedule the pending execution, if any, for the new time
+			const timeout = this.timeouts.get(callback.name);
+			if (timeout !== undefined) {
+				this.lib.clearTimeout(timeout);
+				this.timeouts.delete(callback.name);
+			}
+			if (!this.isPaused()) {
+				this.handleCheckpointCallback(callback);
+			}
+		}
+
+		if (!wasDone && this.isDone() && completeCallback) {
+			this.createEventAndInvokeCallback(completeCallback, "checkpoint", undefined, ms);
+		}
+	}
+
+	/**
+	 * Add the given amount of time to the duration of the countdown. Use a
+	 * negative value to shorten it. See setDuration.
+	 * @param duration
+	 */
+	public extendBy(duration: Duration) {
+		this.setDuration(this.completeTime + durationToMs(duration));
+	}
+
 	public isDone() {
 		return this.getTimeRemaining() <= 0;
 	}
+
+	/**
+	 * Indicates whether or not the countdown has run past zero. Only
+	 * possible when the `overtime` option is set.
+	 */
+	public isOvertime() {
+		return this.overtime && this.getTimeRemaining() < 0;
+	}
+}
+
+export class SuperStopwatch extends SuperTimerBase<SuperStopwatch> {
+	private laps: Omit<StopwatchLap, "isFastest" | "isSlowest">[] = [];
+	private lapStartMs: number = 0;
+
+	protected executeCallback(callback: InternalCallback<SuperStopwatch>) {
+		callback.callback(this);
+	}
+
+	/**
+	 * Time adjustments apply to the lap in progress only; recorded laps are
+	 * never changed. If the adjustment moves the elapsed time to before the
+	 * start of the lap in progress, that lap restarts at the new elapsed time.
+	 */
+	public addTime(time: Duration, suppressCallbacks: boolean = false) {
+		super.addTime(time, suppressCallbacks);
+		this.clampLapStart();
+	}
+
+	/**
+	 * See addTime for how adjustments affect laps.
+	 */
+	public setTime(time: Duration, suppressCallbacks: boolean = false) {
+		super.setTime(time, suppressCallbacks);
+		this.clampLapStart();
+	}
+
+	private clampLapStart() {
+		this.lapStartMs = Math.min(this.lapStartMs, this.getElapsedMs());
+	}
+
+	private getCurrentLapMs(elapsedMs: number) {
+		return Math.max(0, elapsedMs - this.lapStartMs);
+	}
+
+	/**
+	 * Complete the lap in progress and start a new one.
+	 * @param label Optional label for the completed lap
+	 * @returns The completed lap
+	 */
+	public lap(label?: string): StopwatchLap {
+		this.checkDisposed();
+		const elapsedMs = this.getElapsedMs();
+		const lap = {
+			lapNumber: this.laps.length + 1,
+			...(label !== undefined ? { label } : {}),
+			durationMs: this.getCurrentLapMs(elapsedMs),
+			cumulativeMs: elapsedMs,
+			date: new this.lib.Date(),
+		};
+		this.laps.push(lap);
+		this.lapStartMs = elapsedMs;
+
+		this.logEvent({
+			date: lap.date,
+			event: "lap",
+			elapsedMs,
+			data: {
+				lapNumber: lap.lapNumber,
+				durationMs: lap.durationMs,
+				...(label !== undefined ? { label } : {}),
+			},
+		});
+
+		return this.getLaps()[lap.lapNumber - 1];
+	}
+
+	/**
+	 * Read the time of the lap in progress without completing it.
+	 */
+	public split(): StopwatchSplit {
+		this.checkDisposed();
+		const elapsedMs = this.getElapsedMs();
+		return {
+			lapNumber: this.laps.length + 1,
+			lapMs: this.getCurrentLapMs(elapsedMs),
+			cumulativeMs: elapsedMs,
+		};
+	}
+
+	/**
+	 * Get all recorded laps, flagging the fastest and slowest.
+	 */
+	public getLaps(): StopwatchLap[] {
+		this.checkDisposed();
+		const durations = this.laps.map(l => l.durationMs);
+		const fastest = Math.min(...durations);
+		const slowest = Math.max(...durations);
+		const flag = this.laps.length > 1;
+		return this.laps.map(l => ({
+			...l,
+			date: new this.lib.Date(l.date.getTime()),
+			isFastest: flag && l.durationMs === fastest,
+			isSlowest: flag && l.durationMs === slowest,
+		}));
+	}
+
+	/**
+	 * Reset the stopwatch to zero elapsed time and discard all recorded laps.
+	 * @param options
+	 */
+	public reset(options: TimerResetOptions = {}) {
+		super.reset(options);
+		this.laps = [];
+		this.lapStartMs = 0;
+	}
+
+	/**
+	 * Discard all recorded laps. The lap in progress restarts at the current
+	 * elapsed time.
+	 */
+	public resetLaps() {
+		this.checkDisposed();
+		this.laps = [];
+		this.lapStartMs = this.getElapsedMs();
+	}
+}
+
+/**
+ * A timer that runs through an ordered list of named phases, such as the
+ * work and rest intervals of a workout or the focus and break periods of
+ * a Pomodoro routine.
+ */
+export class SuperSequence extends SuperTimerBase<SuperSequence> {
+	private phases: SequencePhaseState[] = [];
+	private currentPhaseIndex: number = 0;
+	private completeTime: number;
+	private phaseChangeCallbacks: Set<SequencePhaseChangeCallback> = new Set();
+	private completeCallbacks: Set<{ callback: (timer: SuperSequence) => void; once: boolean }> = new Set();
+
+	constructor(phases: SequencePhase[], timerOptions: SuperSequenceOptions = {}) {
+		const { repeat = 1, ...baseOptions } = timerOptions;
+		super(baseOptions);
+
+		let startMs = 0;
+		for (let round = 1; round <= repeat; round++) {
+			phases.forEach((phase, phaseIndex) => {
+				for (let iteration = 1; iteration <= (phase.repeat ?? 1); iteration++) {
+					this.phases.push({
+						name: phase.name,
+						durationMs: phase.durationMs,
+						index: this.phases.length,
+						phaseIndex,
+						iteration,
+						round,
+						startMs,
+						endMs: startMs + phase.durationMs,
+					});
+					startMs += phase.durationMs;
+				}
+			});
+		}
+		if (this.phases.length === 0) {
+			throw new Error(`Sequence "${this.name}" must have at least one phase.`);
+		}
+		this.completeTime = startMs;
+
+		this.registerCallbacks([
+			...this.phases.slice(0, -1).map(
+				(phase): SuperSequenceCallback => ({
+					type: "checkpoint",
+					timeMs: phase.endMs,
+					callback: () => this.updateCurrentPhase(),
+					name: `!sequence-phase-end-${phase.index}`,
+				}),
+			),
+			{
+				type: "checkpoint",
+				timeMs: this.completeTime,
+				callback: () => this.complete(),
+				name: "!sequence-complete-internal",
+			},
+		]);
+	}
+
+	protected executeCallback(callback: InternalCallback<SuperSequence>) {
+		callback.callback(this);
+	}
+
+	public unpause(): void {
+		if (!this.isDone()) {
+			super.unpause();
+		}
+	}
+
+	private complete() {
+		this.pause();
+		this.moveTo(this.completeTime, true);
+		this.updateCurrentPhase();
+
+		// As with SuperCountdown, complete callbacks run outside of the callback
+		// system so that they run even though the sequence is paused on completion.
+		for (const completeCallback of [...this.completeCallbacks]) {
+			completeCallback.callback(this);
+			if (completeCallback.once) {
+				this.completeCallbacks.delete(completeCallback);
+			}
+		}
+	}
+
+	private findPhaseIndex(elapsedMs: number) {
+		const index = this.phases.findIndex(p => elapsedMs < p.endMs);
+		return index >= 0 ? index : this.phases.length - 1;
+	}
+
+	private updateCurrentPhase() {
+		const newIndex = this.findPhaseIndex(this.getElapsedMs());
+		if (newIndex === this.currentPhaseIndex) {
+			return;
+		}
+		const previousPhase = this.phases[this.currentPhaseIndex];
+		const phase = this.phases[newIndex];
+		this.currentPhaseIndex = newIndex;
+		this.logEvent({
+			date: new this.lib.Date(),
+			event: "phaseChange",
+			elapsedMs: this.getElapsedMs(),
+			data: { index: phase.index, name: phase.name, previousIndex: previousPhase.index },
+		});
+		for (const callback of [...this.phaseChangeCallbacks]) {
+			callback({ ...phase }, { ...previousPhase }, this);
+		}
+	}
+
+	/**
+	 * Register a callback to execute whenever the sequence moves to a
+	 * different phase, whether by running or by skipping phases.
+	 * @param callback
+	 * @returns A function that removes the callback
+	 */
+	public onPhaseChange(callback: SequencePhaseChangeCallback): () => void {
+		this.checkDisposed();
+		this.phaseChangeCallbacks.add(callback);
+		return () => {
+			this.phaseChangeCallbacks.delete(callback);
+		};
+	}
+
+	/**
+	 * Register a callback to execute when the last phase completes.
+	 *
+	 * @param callback
+	 * @param once If true, the callback will be removed after it is executed.
+	 */
+	public registerCompleteCallback(callback: (timer: SuperSequence) => void, once = false) {
+		this.checkDisposed();
+		this.completeCallbacks.add({ callback, once });
+	}
+
+	/**
+	 * Reset the sequence to the start of its first phase.
+	 * @param options
+	 */
+	public reset(options: TimerResetOptions = {}) {
+		super.reset(options);
+		this.updateCurrentPhase();
+	}
+
+	/**
+	 * Get every phase of the sequence, with repeats expanded.
+	 */
+	public getPhases(): SequencePhaseState[] {
+		return this.phases.map(p => ({ ...p }));
+	}
+
+	public getCurrentPhase(): SequencePhaseState {
+		this.checkDisposed();
+		return { ...this.phases[this.currentPhaseIndex] };
+	}
+
+	public getPhaseTimeRemaining() {
+		return Math.max(0, this.phases[this.currentPhaseIndex].endMs - this.getElapsedMs());
+	}
+
+	public getTotalTimeRemaining() {
+		return Math.max(0, this.completeTime - this.getElapsedMs());
+	}
+
+	/**
+	 * Move to the start of the next phase. Checkpoints in the skipped time
+	 * are not executed. Skipping the last phase completes the sequence.
+	 */
+	public skipPhase() {
+		this.checkDisposed();
+		const phase = this.phases[this.currentPhaseIndex];
+		if (this.isDone()) {
+			return;
+		}
+		if (phase.index === this.phases.length - 1) {
+			this.complete();
+		} else {
+			this.moveTo(phase.endMs, true);
+			this.updateCurrentPhase();
+		}
+	}
+
+	/**
+	 * Move to the start of the previous phase, or to the start of the
+	 * first phase if the sequence is in its first phase.
+	 */
+	public previousPhase() {
+		this.checkDisposed();
+		const phase = this.phases[Math.max(0, this.currentPhaseIndex - 1)];
+		this.moveTo(phase.startMs, true);
+		this.updateCurrentPhase();
+	}
+
+	public isDone() {
+		return this.getElapsedMs() >= this.completeTime;
+	}
 }
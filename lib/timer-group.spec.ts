@@ -0,0 +1,78 @@
+import { SuperCountdown, SuperTimer, VirtualClock } from "./super-timer";
+import { TimerGroup } from "./timer-group";
+
+describe("TimerGroup", () => {
+	let clock: VirtualClock;
+	let game: SuperTimer;
+	let player: SuperCountdown;
+	let group: TimerGroup;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		game = new SuperTimer({ name: "game", shims: clock });
+		player = new SuperCountdown(5000, undefined, { name: "player", shims: clock });
+		group = new TimerGroup([game, player]);
+	});
+
+	afterEach(() => {
+		group.disposeAll();
+	});
+
+	it("looks timers up by name", () => {
+		expect(group.get("player")).toBe(player);
+		expect(group.has("game")).toBe(true);
+		expect(group.getAll()).toEqual([game, player]);
+	});
+
+	it("rejects a second timer with the same name", () => {
+		group.add(game);
+		const other = new SuperTimer({ name: "game", shims: clock });
+		expect(() => group.add(other)).toThrow('Timer group already contains a timer named "game".');
+		other.dispose();
+	});
+
+	it("removes timers by name or instance", () => {
+		const other = new SuperTimer({ name: "game", shims: clock });
+		expect(group.remove(other)).toBe(false);
+		expect(group.remove(game)).toBe(true);
+		expect(group.remove("player")).toBe(true);
+		expect(group.remove("player")).toBe(false);
+		expect(game.isDisposed()).toBe(false);
+		other.dispose();
+		game.dispose();
+		player.dispose();
+	});
+
+	it("pauses, unpauses and changes the speed of every timer", () => {
+		group.unpauseAll();
+		clock.advanceBy(1000);
+		group.setSpeedMultiplier(2);
+		clock.advanceBy(1000);
+		group.pauseAll();
+		clock.advanceBy(1000);
+		expect(game.getElapsedMs()).toBe(3000);
+		expect(player.getTimeRemaining()).toBe(2000);
+		expect(game.isPaused() && player.isPaused()).toBe(true);
+	});
+
+	it("leaves completed countdowns paused", () => {
+		group.unpauseAll();
+		clock.advanceBy(6000);
+		group.pauseAll();
+		group.unpauseAll();
+		expect(game.isPaused()).toBe(false);
+		expect(player.isPaused()).toBe(true);
+	});
+
+	it("skips disposed timers", () => {
+		player.dispose();
+		group.unpauseAll();
+		expect(Object.keys(group.getState())).toEqual(["game"]);
+	});
+
+	it("disposes every timer and empties the group", () => {
+		group.disposeAll();
+		expect(game.isDisposed() && player.isDisposed()).toBe(true);
+		expect(group.getAll()).toEqual([]);
+	});
+});
@@ -0,0 +1,116 @@
+import type { SuperTimerBase, TimerState } from "./super-timer.js";
+
+/**
+ * A collection of timers that can be controlled together, e.g. one
+ * countdown per player plus an overall game timer. Timers are looked
+ * up by their name, which must be unique within the group.
+ */
+export class TimerGroup<TTimer extends SuperTimerBase<any> = SuperTimerBase<any>> {
+	private timers: Map<string, TTimer> = new Map();
+
+	constructor(timers: TTimer[] = []) {
+		this.add(...timers);
+	}
+
+	/**
+	 * Add timers to the group.
+	 * @param timers
+	 */
+	public add(...timers: TTimer[]) {
+		for (const timer of timers) {
+			const name = timer.getName();
+			const existing = this.timers.get(name);
+			if (existing && existing !== timer) {
+				throw new Error(`Timer group already contains a timer named "${name}".`);
+			}
+			this.timers.set(name, timer);
+		}
+	}
+
+	/**
+	 * Remove a timer from the group. The timer itself is not affected.
+	 * @param timerOrName The timer or its name
+	 * @returns True if the timer was in the group
+	 */
+	public remove(timerOrName: TTimer | string): boolean {
+		const name = typeof timerOrName === "string" ? timerOrName : timerOrName.getName();
+		const timer = this.timers.get(name);
+		if (!timer || (typeof timerOrName !== "string" && timer !== timerOrName)) {
+			return false;
+		}
+		return this.timers.delete(name);
+	}
+
+	/**
+	 * Get a timer in the group by name.
+	 * @param name
+	 */
+	public get(name: string): TTimer | undefined {
+		return this.timers.get(name);
+	}
+
+	public has(name: string): boolean {
+		return this.timers.has(name);
+	}
+
+	/**
+	 * Get all timers in the group, in the order they were added.
+	 */
+	public getAll(): TTimer[] {
+		return [...this.timers.values()];
+	}
+
+	/**
+	 * Pause every timer in the group.
+	 */
+	public pauseAll() {
+		for (const timer of this.activeTimers()) {
+			timer.pause();
+		}
+	}
+
+	/**
+	 * Unpause every timer in the group. Countdowns that are done stay paused.
+	 */
+	public unpauseAll() {
+		for (const timer of this.activeTimers()) {
+			timer.unpause();
+		}
+	}
+
+	/**
+	 * Set the speed multiplier of every timer in the group.
+	 * @param speedMultiplier
+	 */
+	public setSpeedMultiplier(speedMultiplier: number) {
+		for (const timer of this.activeTimers()) {
+			timer.setSpeedMultiplier(speedMultiplier);
+		}
+	}
+
+	/**
+	 * Dispose every timer in the group and empty the group.
+	 */
+	public disposeAll() {
+		for (const timer of this.activeTimers()) {
+			timer.dispose();
+		}
+		this.timers.clear();
+	}
+
+	/**
+	 * Get the state of every timer in the group that has not been disposed, keyed by name.
+	 */
+	public getState(): Record<string, TimerState> {
+		const state: Record<string, TimerState> = {};
+		for (const timer of this.activeTimers()) {
+			state[timer.getName()] = timer.getState();
+		}
+		return state;
+	}
+
+	// Timers may be disposed while in the group, in which case they are skipped.
+	private activeTimers() {
+		return this.getAll().filter(t => !t.isDisposed());
+	}
+}
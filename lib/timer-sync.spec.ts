@@ -0,0 +1,130 @@
+import { EventEmitter } from "node:events";
+import { SuperTimer, VirtualClock } from "./super-timer";
+import { EventEmitterTransport, TimerSync, TimerSyncMessage, TimerSyncTransport } from "./timer-sync";
+
+describe("TimerSync", () => {
+	let clock: VirtualClock;
+	let emitter: EventEmitter;
+	let timers: SuperTimer[];
+	let syncs: TimerSync[];
+
+	function join(role?: "leader" | "follower", transport: TimerSyncTransport = new EventEmitterTransport(emitter)) {
+		const timer = new SuperTimer({ shims: clock });
+		const sync = new TimerSync(timer, { transport, role, id: `participant-${syncs.length + 1}` });
+		timers.push(timer);
+		syncs.push(sync);
+		return { timer, sync };
+	}
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		emitter = new EventEmitter();
+		timers = [];
+		syncs = [];
+	});
+
+	afterEach(() => {
+		syncs.forEach(s => s.dispose());
+		timers.forEach(t => t.dispose());
+	});
+
+	it("makes followers mirror the leader", () => {
+		const leader = join("leader");
+		const follower = join();
+		expect(follower.sync.getLeaderId()).toBe("participant-1");
+
+		leader.timer.start();
+		clock.advanceBy(1000);
+		expect(follower.timer.isPaused()).toBe(false);
+		expect(follower.timer.getElapsedMs()).toBe(1000);
+
+		leader.timer.addTime(5000);
+		leader.timer.setSpeedMultiplier(2);
+		clock.advanceBy(1000);
+		leader.timer.pause();
+		expect(follower.timer.isPaused()).toBe(true);
+		expect(follower.timer.getSpeedMultiplier()).toBe(2);
+		expect(follower.timer.getElapsedMs()).toBe(8000);
+	});
+
+	it("brings late joiners up to date", () => {
+		const leader = join("leader");
+		leader.timer.start();
+		clock.advanceBy(3000);
+		const follower = join();
+		expect(follower.timer.getElapsedMs()).toBe(3000);
+		expect(follower.timer.isPaused()).toBe(false);
+	});
+
+	it("corrects followers that drift on the heartbeat", () => {
+		const leader = join("leader");
+		const follower = join();
+		leader.timer.start();
+		follower.timer.addTime(500, true);
+		expect(follower.timer.getElapsedMs()).toBe(500);
+		clock.advanceBy(1000);
+		expect(follower.timer.getElapsedMs()).toBe(1000);
+	});
+
+	it("hands over leadership with becomeLeader", () => {
+		const first = join("leader");
+		const second = join();
+		const leaderChanges: (string | undefined)[] = [];
+		first.sync.onLeaderChange(leaderId => leaderChanges.push(leaderId));
+
+		second.sync.becomeLeader();
+		expect(first.sync.getRole()).toBe("follower");
+		expect(leaderChanges).toEqual(["participant-2"]);
+
+		second.timer.start();
+		clock.advanceBy(1000);
+		expect(first.timer.getElapsedMs()).toBe(1000);
+
+		second.sync.dispose();
+		expect(first.sync.getLeaderId()).toBeUndefined();
+		expect(leaderChanges).toEqual(["participant-2", undefined]);
+	});
+
+	it("resolves simultaneous claims the same way everywhere", () => {
+		// A transport that holds messages until they are flushed, so both claims cross
+		const queue: TimerSyncMessage[] = [];
+		const delayed: TimerSyncTransport = {
+			send: message => queue.push(message),
+			subscribe: listener => {
+				emitter.on("delayed", listener);
+				return () => emitter.off("delayed", listener);
+			},
+		};
+		const a = join("leader", delayed);
+		const b = join("leader", delayed);
+		while (queue.length) {
+			emitter.emit("delayed", queue.shift());
+		}
+		expect(a.sync.getLeaderId()).toBe("participant-2");
+		expect(b.sync.getLeaderId()).toBe("participant-2");
+		expect(a.sync.getRole()).toBe("follower");
+		expect(b.sync.getRole()).toBe("leader");
+	});
+
+	it("decides between a joining leader and the current one by term, then by id", () => {
+		const first = join("leader");
+		const second = join("leader");
+		expect(first.sync.getLeaderId()).toBe("participant-2");
+		expect(first.sync.getRole()).toBe("follower");
+
+		first.sync.becomeLeader();
+		const third = join("leader");
+		expect(third.sync.getRole()).toBe("follower");
+		expect(syncs.map(s => s.getLeaderId())).toEqual(["participant-1", "participant-1", "participant-1"]);
+		expect(second.sync.getRole()).toBe("follower");
+	});
+
+	it("leaves the timer alone once disposed", () => {
+		const leader = join("leader");
+		const follower = join();
+		follower.sync.dispose();
+		leader.timer.start();
+		expect(follower.timer.isPaused()).toBe(true);
+		expect(() => follower.sync.becomeLeader()).toThrow('Timer sync "participant-2" has been disposed');
+	});
+});
@@ -0,0 +1,325 @@
+import type { SuperTimerBase, TimerSyncState } from "./super-timer.js";
+
+/**
+ * Messages exchanged between synchronized timers.
+ *
+ * "state" - Sent by the leader whenever its timer is paused, unpaused,
+ * adjusted, or has its speed changed, and periodically while it runs.
+ * "hello" - Sent by a newly created sync so the leader replies with its state.
+ * "leave" - Sent by the leader when it is disposed.
+ */
+export type TimerSyncMessage =
+	| { type: "state"; senderId: string; term: number; state: TimerSyncState }
+	| { type: "hello"; senderId: string }
+	| { type: "leave"; senderId: string; term: number };
+
+/**
+ * Delivers sync messages between timers. Messages a transport delivers
+ * back to their sender are ignored, so a transport may or may not echo.
+ */
+export interface TimerSyncTransport {
+	send(message: TimerSyncMessage): void;
+
+	/**
+	 * Listen for messages from other timers.
+	 * @param listener
+	 * @returns A function that stops listening
+	 */
+	subscribe(listener: (message: TimerSyncMessage) => void): () => void;
+}
+
+export type TimerSyncRole = "leader" | "follower";
+
+export interface TimerSyncOptions {
+	transport: TimerSyncTransport;
+
+	/**
+	 * Whether this timer claims leadership when it joins, as if it called
+	 * `becomeLeader`. Each claim starts a new term, and the claim with the
+	 * higher term wins; between claims with the same term, the one from the
+	 * participant with the larger id wins. A timer that joins as leader
+	 * claims the first term, so it takes over from a leader in the first term
+	 * only if its id is larger, and follows a leader in any later term.
+	 *
+	 * @default "follower"
+	 */
+	role?: TimerSyncRole;
+
+	/**
+	 * A unique identifier for this participant.
+	 *
+	 * @default A random string
+	 */
+	id?: string;
+
+	/**
+	 * While the leader's timer runs, how often it publishes its state, in
+	 * elapsed milliseconds. This corrects followers whose timers drift and
+	 * catches up followers that missed a message.
+	 *
+	 * @default 1000
+	 */
+	heartbeatMs?: number;
+
+	/**
+	 * Followers only adjust their elapsed time when it differs from the
+	 * leader's by more than this amount.
+	 *
+	 * @default 50
+	 */
+	toleranceMs?: number;
+}
+
+let syncId = 1;
+
+/**
+ * Keeps timers in different tabs, windows, or processes in step. One
+ * leader publishes its timer's state, and every follower makes its own
+ * timer mirror that state. Any participant can take over as leader with
+ * `becomeLeader`.
+ *
+ * @example
+ * const sync = new TimerSync(countdown, {
+ *   transport: new BroadcastChannelTransport("classroom-timer"),
+ *   role: isTeacher ? "leader" : "follower",
+ * });
+ */
+export class TimerSync {
+	private timer: SuperTimerBase<any>;
+	private transport: TimerSyncTransport;
+	private id: string;
+	private role: TimerSyncRole;
+	private term: number = 0;
+	private leaderId: string | undefined;
+	private toleranceMs: number;
+	private callbackName: string;
+	private leaderChangeCallbacks: Set<(leaderId: string | undefined, sync: TimerSync) => void> = new Set();
+	private unsubscribers: (() => void)[] = [];
+	private disposed: boolean = false;
+
+	constructor(timer: SuperTimerBase<any>, options: TimerSyncOptions) {
+		this.timer = timer;
+		this.transport = options.transport;
+		this.id = options.id ?? `${Math.random().toString(36).slice(2)}-${syncId}`;
+		this.role = "follower";
+		this.toleranceMs = options.toleranceMs ?? 50;
+		this.callbackName = `!timer-sync-${syncId++}`;
+
+		this.unsubscribers.push(options.transport.subscribe(message => this.handleMessage(message)));
+
+		// Update callbacks run after every pause, unpause, and time adjustment. Speed
+		// changes on a paused timer don't run them, so those are handled separately.
+		timer.registerCallbacks([
+			{
+				type: "tick-reset",
+				timeMs: options.heartbeatMs ?? 1000,
+				executeOnUpdate: true,
+				name: this.callbackName,
+				callback: () => this.publish(),
+			},
+		]);
+		this.unsubscribers.push(timer.on("setSpeed", () => this.publish()));
+
+		if (options.role === "leader") {
+			this.becomeLeader();
+		} else {
+			this.send({ type: "hello", senderId: this.id });
+		}
+	}
+
+	public getId(): string {
+		return this.id;
+	}
+
+	public getRole(): TimerSyncRole {
+		return this.role;
+	}
+
+	/**
+	 * Gets the id of the current leader, if one is known.
+	 */
+	public getLeaderId(): string | undefined {
+		return this.leaderId;
+	}
+
+	/**
+	 * Take over as leader. Every other participant becomes a follower and
+	 * mirrors this timer from now on.
+	 */
+	public becomeLeader() {
+		this.checkDisposed();
+		this.term++;
+		this.role = "leader";
+		this.setLeader(this.id);
+		this.publish();
+	}
+
+	/**
+	 * Register a callback to execute when the leader changes. The leader id
+	 * is undefined when the leader leaves.
+	 * @param callback
+	 * @returns A function that removes the callback
+	 */
+	public onLeaderChange(callback: (leaderId: string | undefined, sync: TimerSync) => void): () => void {
+		this.leaderChangeCallbacks.add(callback);
+		return () => {
+			this.leaderChangeCallbacks.delete(callback);
+		};
+	}
+
+	/**
+	 * Publish the state of the timer now, if this participant is the leader.
+	 */
+	public publish() {
+		if (this.role !== "leader" || this.disposed || this.timer.isDisposed()) {
+			return;
+		}
+		this.send({ type: "state", senderId: this.id, term: this.term, state: this.timer.getSyncState() });
+	}
+
+	/**
+	 * Stop synchronizing. The timer itself is not affected, and the
+	 * transport is left open.
+	 */
+	public dispose() {
+		if (this.disposed) {
+			return;
+		}
+		if (this.role === "leader") {
+			this.send({ type: "leave", senderId: this.id, term: this.term });
+		}
+		for (const unsubscribe of this.unsubscribers) {
+			unsubscribe();
+		}
+		if (!this.timer.isDisposed()) {
+			this.timer.removeCallbacks([this.callbackName]);
+		}
+		this.leaderChangeCallbacks.clear();
+		this.disposed = true;
+	}
+
+	private checkDisposed() {
+		if (this.disposed) {
+			throw new Error(`Timer sync "${this.id}" has been disposed and cannot be used.`);
+		}
+	}
+
+	private send(message: TimerSyncMessage) {
+		this.transport.send(message);
+	}
+
+	private setLeader(leaderId: string | undefined) {
+		if (leaderId === this.leaderId) {
+			return;
+		}
+		this.leaderId = leaderId;
+		for (const callback of [...this.leaderChangeCallbacks]) {
+			callback(leaderId, this);
+		}
+	}
+
+	// Claims are ordered by term, then by id, so that every participant
+	// agrees on the winner when two claim at the same time.
+	private isNewerClaim(senderId: string, term: number) {
+		if (term !== this.term) {
+			return term > this.term;
+		}
+		return this.leaderId === undefined || senderId >= this.leaderId;
+	}
+
+	private handleMessage(message: TimerSyncMessage) {
+		if (this.disposed || message.senderId === this.id || this.timer.isDisposed()) {
+			return;
+		}
+
+		switch (message.type) {
+			case "hello":
+				// Bring late joiners up to date
+				this.publish();
+				break;
+
+			case "state":
+				if (!this.isNewerClaim(message.senderId, message.term)) {
+					// A stale leader; remind it who leads now
+					this.publish();
+					return;
+				}
+				this.term = message.term;
+				this.role = "follower";
+				this.setLeader(message.senderId);
+				this.timer.applySyncState(message.state, this.toleranceMs);
+				break;
+
+			case "leave":
+				if (message.senderId === this.leaderId) {
+					this.setLeader(undefined);
+				}
+				break;
+		}
+	}
+}
+
+/**
+ * A transport for timers in different tabs or windows of the same origin,
+ * using `BroadcastChannel`.
+ */
+export class BroadcastChannelTransport implements TimerSyncTransport {
+	private channel: BroadcastChannel;
+
+	constructor(channelName: string) {
+		this.channel = new BroadcastChannel(channelName);
+	}
+
+	public send(message: TimerSyncMessage) {
+		this.channel.postMessage(message);
+	}
+
+	public subscribe(listener: (message: TimerSyncMessage) => void) {
+		const handler = (event: MessageEvent<TimerSyncMessage>) => listener(event.data);
+		this.channel.addEventListener("message", handler);
+		return () => {
+			this.channel.removeEventListener("message", handler);
+		};
+	}
+
+	/**
+	 * Close the underlying channel. The transport cannot be used afterwards.
+	 */
+	public close() {
+		this.channel.close();
+	}
+}
+
+/**
+ * The subset of Node's `EventEmitter` used by `EventEmitterTransport`.
+ */
+export interface EventEmitterLike {
+	emit(eventName: string, ...args: any[]): unknown;
+	on(eventName: string, listener: (...args: any[]) => void): unknown;
+	off(eventName: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * A transport for timers that share an event emitter, e.g. in tests or
+ * within a single process.
+ */
+export class EventEmitterTransport implements TimerSyncTransport {
+	private emitter: EventEmitterLike;
+	private eventName: string;
+
+	constructor(emitter: EventEmitterLike, eventName: string = "timer-sync") {
+		this.emitter = emitter;
+		this.eventName = eventName;
+	}
+
+	public send(message: TimerSyncMessage) {
+		this.emitter.emit(this.eventName, message);
+	}
+
+	public subscribe(listener: (message: TimerSyncMessage) => void) {
+		this.emitter.on(this.eventName, listener);
+		return () => {
+			this.emitter.off(this.eventName, listener);
+		};
+	}
+}
@@ -0,0 +1,163 @@
+import { SuperCountdown, SuperTimer, VirtualClock } from "./super-timer";
+import { DurationParseError, formatDuration, parseDuration } from "./util";
+
+describe("formatDuration", () => {
+	it("uses mm:ss by default, adding hours and days when needed", () => {
+		expect(formatDuration(65000)).toBe("01:05");
+		expect(formatDuration(3723000)).toBe("1:02:03");
+		expect(formatDuration(90061000)).toBe("1:01:01:01");
+	});
+
+	it("formats patterns, keeping overflow in the largest unit", () => {
+		expect(formatDuration(7200000, "mm:ss")).toBe("120:00");
+		expect(formatDuration(93784567, "d [days] hh:mm:ss.SSS")).toBe("1 days 02:03:04.567");
+		expect(formatDuration(1234, "s.S")).toBe("1.2");
+	});
+
+	it("rounds to the smallest unit in the pattern", () => {
+		expect(formatDuration(30000, "hh:mm")).toBe("00:00");
+		expect(formatDuration(30000, { pattern: "hh:mm", rounding: "ceil" })).toBe("00:01");
+		expect(formatDuration(1250, { pattern: "ss.SS", rounding: "round" })).toBe("01.25");
+		expect(formatDuration(1999, { pattern: "ss.S", rounding: "floor" })).toBe("01.9");
+	});
+
+	it("rounds the absolute value of negative durations", () => {
+		expect(formatDuration(-300, { rounding: "ceil" })).toBe("-00:01");
+		expect(formatDuration(-300)).toBe("00:00");
+	});
+
+	it("shows signs as requested", () => {
+		expect(formatDuration(-5000)).toBe("-00:05");
+		expect(formatDuration(5000, { sign: "always" })).toBe("+00:05");
+		expect(formatDuration(-5000, { sign: "never" })).toBe("00:05");
+		expect(formatDuration(-5000, { sign: "clamp" })).toBe("00:00");
+	});
+
+	it("formats the compact style between the largest and smallest units", () => {
+		expect(formatDuration(3723000, { style: "compact" })).toBe("1h 2m 3s");
+		expect(formatDuration(90061000, { style: "compact", largestUnit: "h", smallestUnit: "m" })).toBe("25h 1m");
+		expect(formatDuration(0, { style: "compact" })).toBe("0s");
+	});
+
+	it("formats the verbose style in the given locale", () => {
+		expect(formatDuration(3723000, { style: "verbose", locale: "en-US" })).toBe("1 hour, 2 minutes, 3 seconds");
+		expect(formatDuration(60000, { style: "verbose", locale: "en-US" })).toBe("1 minute");
+	});
+
+	it("rejects a largest unit smaller than the smallest unit", () => {
+		expect(() => formatDuration(1000, { style: "compact", largestUnit: "s", smallestUnit: "m" })).toThrow(
+			'The largest unit "s" is smaller than the smallest unit "m".',
+		);
+	});
+});
+
+describe("timer format", () => {
+	let clock: VirtualClock;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+	});
+
+	it("formats the elapsed time of a timer", () => {
+		const timer = new SuperTimer({ shims: clock });
+		timer.start();
+		clock.advanceBy(65900);
+		expect(timer.format()).toBe("01:05");
+		expect(timer.format({ style: "compact" })).toBe("1m 5s");
+		timer.dispose();
+	});
+
+	it("formats the time remaining of a countdown, rounding up", () => {
+		const countdown = new SuperCountdown(60000, undefined, { shims: clock });
+		countdown.start();
+		clock.advanceBy(100);
+		expect(countdown.format()).toBe("01:00");
+		clock.advanceBy(29900);
+		expect(countdown.format("h:mm")).toBe("0:01");
+		clock.advanceBy(30000);
+		expect(countdown.format()).toBe("00:00");
+		countdown.dispose();
+	});
+});
+
+describe("parseDuration", () => {
+	it("reads plain numbers in the default unit", () => {
+		expect(parseDuration("90")).toBe(90000);
+		expect(parseDuration("1.5")).toBe(1500);
+		expect(parseDuration("250", { defaultUnit: "ms" })).toBe(250);
+	});
+
+	it("reads colon-separated durations", () => {
+		expect(parseDuration("8:22")).toBe(502000);
+		expect(parseDuration("1 : 02")).toBe(62000);
+		expect(parseDuration("1:02:03")).toBe(3723000);
+		expect(parseDuration("2:00:00:00")).toBe(2 * 86400000);
+		expect(parseDuration("0:05.250")).toBe(5250);
+		expect(parseDuration(":56")).toBe(56000);
+	});
+
+	it("reads amounts with units", () => {
+		expect(parseDuration("1.5h")).toBe(5400000);
+		expect(parseDuration("1h 30m")).toBe(5400000);
+		expect(parseDuration("2 days, 3 hours and 15 minutes")).toBe(2 * 86400000 + 3 * 3600000 + 15 * 60000);
+		expect(parseDuration("250ms")).toBe(250);
+		expect(parseDuration("1 wk")).toBe(7 * 86400000);
+	});
+
+	it("reads ISO 8601 durations", () => {
+		expect(parseDuration("PT1H30M")).toBe(5400000);
+		expect(parseDuration("P1DT12H")).toBe(1.5 * 86400000);
+		expect(parseDuration("PT0,5S")).toBe(500);
+	});
+
+	it("handles signs", () => {
+		expect(parseDuration("-1:30")).toBe(-90000);
+		expect(parseDuration("+5s")).toBe(5000);
+		expect(parseDuration("-0")).toBe(0);
+	});
+
+	it.each([
+		["  ", "empty", undefined],
+		["-", "invalid-format", 1],
+		[" + ", "invalid-format", 2],
+		["1:2:3:4:5", "invalid-format", 0],
+		["P1Y", "invalid-format", 0],
+		["5 parsecs", "unknown-unit", 0],
+		["1m 2s 3m", "duplicate-unit", 6],
+		[" -5s", "negative", 1],
+	])("reports why %j is invalid", (input, code, position) => {
+		let error: unknown;
+		try {
+			parseDuration(input, { allowNegative: false });
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(DurationParseError);
+		expect(error).toMatchObject({ input, code, position });
+	});
+
+	it("explains why ISO years and months are not supported", () => {
+		expect(() => parseDuration("P1M")).toThrow(
+			'Invalid duration "P1M": ISO 8601 years and months are not supported, since their length varies.',
+		);
+	});
+});
+
+describe("duration strings in timer APIs", () => {
+	it("are accepted wherever a duration is", () => {
+		const clock = new VirtualClock();
+		const callback = jest.fn();
+		const countdown = new SuperCountdown("1m", undefined, {
+			shims: clock,
+			callbacks: [{ type: "checkpoint", timeMs: "30s", callback }],
+		});
+		countdown.start();
+		clock.advanceBy(30000);
+		expect(callback).toHaveBeenCalledTimes(1);
+		countdown.addTime("1:00");
+		countdown.extendBy("PT1M");
+		expect(countdown.getTimeRemaining()).toBe(150000);
+		expect(() => countdown.setTimeRemaining("soon")).toThrow(DurationParseError);
+		countdown.dispose();
+	});
+});
@@ -7,6 +7,7 @@
  * is allowed and will be converted to a negative string.
  * If allowNegative is false, then a negative number of seconds
  * is treated as zero and will be converted to "00:00:00".
+ * @deprecated Use formatDuration, which supports more formats.
  * @param seconds 
  * @param allowNegative 
  */
@@ -28,6 +29,7 @@ export function secondsToStr(seconds: number, allowNegative: boolean = false) {
  *   strToSeconds("1s") == 1
  *   strToSeconds("1:02:03") == 3723
  *   strToSeconds("1 hour 2 minutes 3 seconds") == 3723
+ * @deprecated Use parseDuration, which supports more formats and reports why a string is invalid.
  * @param str
  */
 export function strToSeconds(str: string) {
@@ -57,3 +59,382 @@ export function strToSeconds(str: string) {
 
 	return null;
 }
+export type DurationUnit = "d" | "h" | "m" | "s" | "ms";
+
+export interface FormatDurationOptions {
+	/**
+	 * A pattern made of the tokens below. Each token is replaced by the
+	 * value of that unit, zero-padded to the length of the token. The
+	 * largest unit in the pattern holds all of the time that does not fit
+	 * in the smaller units, e.g. "mm:ss" formats two hours as "120:00".
+	 * Text inside square brackets is output as-is, e.g. "d [days] hh:mm".
+	 *
+	 * - d, dd: days
+	 * - h, hh: hours
+	 * - m, mm: minutes
+	 * - s, ss: seconds
+	 * - S, SS, SSS: tenths, hundredths, or thousandths of a second
+	 *
+	 * Only used with the "digital" style. If not given, the pattern is
+	 * "mm:ss", with hours and days added in front when they are not zero,
+	 * e.g. "1:02:03".
+	 */
+	pattern?: string;
+
+	/**
+	 * "digital" - Formatted with the pattern, e.g. "1:02:03".
+	 * "compact" - Non-zero units with abbreviations, e.g. "1h 2m 3s".
+	 * "verbose" - Non-zero units, spelled out in the given locale, e.g.
+	 * "1 hour, 2 minutes, 3 seconds".
+	 *
+	 * @default "digital"
+	 */
+	style?: "digital" | "compact" | "verbose";
+
+	/**
+	 * How to round the duration to the smallest unit that is displayed.
+	 * Rounding applies to the absolute value, so a countdown with 0.3
+	 * seconds remaining or 0.3 seconds of overtime shows "00:01" or
+	 * "-00:01" with "ceil".
+	 *
+	 * @default "floor"
+	 */
+	rounding?: "floor" | "ceil" | "round";
+
+	/**
+	 * "auto" - Show a minus sign for negative durations.
+	 * "always" - Also show a plus sign for positive durations.
+	 * "never" - Format the absolute value.
+	 * "clamp" - Format negative durations as zero.
+	 *
+	 * A duration that rounds to zero never has a sign.
+	 *
+	 * @default "auto"
+	 */
+	sign?: "auto" | "always" | "never" | "clamp";
+
+	/**
+	 * For the "compact" and "verbose" styles, the largest and smallest
+	 * units to show.
+	 *
+	 * @default "d" and "s"
+	 */
+	largestUnit?: DurationUnit;
+	smallestUnit?: DurationUnit;
+
+	/**
+	 * The locale for the "verbose" style.
+	 *
+	 * @default undefined (the runtime's default locale)
+	 */
+	locale?: string | string[];
+}
+
+const unitMs: Record<DurationUnit, number> = { d: 86400000, h: 3600000, m: 60000, s: 1000, ms: 1 };
+const units: DurationUnit[] = ["d", "h", "m", "s", "ms"];
+const intlUnits: Record<DurationUnit, string> = { d: "day", h: "hour", m: "minute", s: "second", ms: "millisecond" };
+const patternTokens = /\[([^\]]*)\]|d+|h+|m+|s+|S+/g;
+
+// Intl.ListFormat is not in the ES2020 type definitions
+const ListFormat = (
+	Intl as unknown as {
+		ListFormat?: new (
+			locales?: string | string[],
+			options?: { type: "unit"; style: "long" },
+		) => { format(list: string[]): string };
+	}
+).ListFormat;
+
+function applyRounding(value: number, rounding: FormatDurationOptions["rounding"]) {
+	return rounding === "ceil" ? Math.ceil(value) : rounding === "round" ? Math.round(value) : Math.floor(value);
+}
+
+// Split a duration into whole amounts of the given units, largest first.
+function splitDuration(ms: number, splitUnits: DurationUnit[]) {
+	const values: Partial<Record<DurationUnit, number>> = {};
+	let remaining = ms;
+	for (const unit of splitUnits) {
+		values[unit] = Math.floor(remaining / unitMs[unit]);
+		remaining -= values[unit]! * unitMs[unit];
+	}
+	return values;
+}
+
+function formatPattern(ms: number, pattern: string) {
+	const tokenUnit = (token: string): DurationUnit => (token[0] === "S" ? "ms" : (token[0] as DurationUnit));
+	const tokens = pattern.match(patternTokens)?.filter(t => !t.startsWith("[")) ?? [];
+	const values = splitDuration(
+		ms,
+		units.filter(u => tokens.some(t => tokenUnit(t) === u)),
+	);
+	return pattern.replace(patternTokens, (token, literal: string | undefined) => {
+		if (literal !== undefined) {
+			return literal;
+		}
+		if (token[0] === "S") {
+			// Fractions of a second are truncated to the number of digits in the token
+			return String(values.ms ?? 0)
+				.padStart(3, "0")
+				.slice(0, token.length);
+		}
+		return String(values[tokenUnit(token)] ?? 0).padStart(token.length, "0");
+	});
+}
+
+/**
+ * Format a number of milliseconds as a duration, e.g. "1:02:03",
+ * "1h 2m 3s", or "1 hour, 2 minutes, 3 seconds".
+ * @param ms
+ * @param patternOrOptions A pattern for the "digital" style, or options
+ */
+export function formatDuration(ms: number, patternOrOptions: string | FormatDurationOptions = {}) {
+	const options = typeof patternOrOptions === "string" ? { pattern: patternOrOptions } : patternOrOptions;
+	const { pattern, style = "digital", rounding = "floor", sign = "auto", locale } = options;
+	const largestUnit = options.largestUnit ?? "d";
+	const smallestUnit = options.smallestUnit ?? "s";
+	if (units.indexOf(largestUnit) > units.indexOf(smallestUnit)) {
+		throw new Error(`The largest unit "${largestUnit}" is smaller than the smallest unit "${smallestUnit}".`);
+	}
+
+	// Round to the smallest unit that will be displayed
+	let precisionMs = unitMs[smallestUnit];
+	if (style === "digital") {
+		// The smallest token in the pattern, e.g. a minute for "hh:mm"
+		const tokenPrecisions = (pattern?.match(patternTokens) ?? [])
+			.filter(t => !t.startsWith("["))
+			.map(t => (t[0] === "S" ? 10 ** (3 - Math.min(3, t.length)) : unitMs[t[0] as DurationUnit]));
+		precisionMs = tokenPrecisions.length ? Math.min(...tokenPrecisions) : 1000;
+	}
+	const isNegative = ms < 0 && sign !== "clamp";
+	const absMs = ms < 0 && sign === "clamp" ? 0 : Math.abs(ms);
+	const roundedMs = applyRounding(absMs / precisionMs, rounding) * precisionMs;
+	const signStr = roundedMs === 0 || sign === "never" ? "" : isNegative ? "-" : sign === "always" ? "+" : "";
+
+	if (style === "digital") {
+		const defaultPattern = roundedMs >= unitMs.d ? "d:hh:mm:ss" : roundedMs >= unitMs.h ? "h:mm:ss" : "mm:ss";
+		return signStr + formatPattern(roundedMs, pattern ?? defaultPattern);
+	}
+
+	const shownUnits = units.slice(units.indexOf(largestUnit), units.indexOf(smallestUnit) + 1);
+	const values = splitDuration(roundedMs, shownUnits);
+	let parts = shownUnits.filter(u => values[u]! > 0).map(u => ({ unit: u, value: values[u]! }));
+	if (!parts.length) {
+		parts = [{ unit: smallestUnit, value: 0 }];
+	}
+
+	if (style === "compact") {
+		return signStr + parts.map(p => `${p.value}${p.unit}`).join(" ");
+	}
+	const strings = parts.map(p =>
+		new Intl.NumberFormat(locale, { style: "unit", unit: intlUnits[p.unit], unitDisplay: "long" }).format(p.value),
+	);
+	return (
+		signStr +
+		(ListFormat ? new ListFormat(locale, { type: "unit", style: "long" }).format(strings) : strings.join(", "))
+	);
+}
+
+/**
+ * An amount of time, either in milliseconds or as a string accepted by
+ * `parseDuration`, e.g. "1:30", "1.5h", or "PT1H30M". A string that is
+ * just a number is in seconds.
+ */
+export type Duration = number | string;
+
+export type DurationParseErrorCode = "empty" | "invalid-format" | "unknown-unit" | "duplicate-unit" | "negative";
+
+/**
+ * Thrown by `parseDuration` when a string cannot be parsed.
+ */
+export class DurationParseError extends Error {
+	/**
+	 * The string that could not be parsed.
+	 */
+	public readonly input: string;
+
+	/**
+	 * The kind of problem with the input.
+	 */
+	public readonly code: DurationParseErrorCode;
+
+	/**
+	 * The index in `input` at which the problem was found, if known.
+	 */
+	public readonly position: number | undefined;
+
+	constructor(input: string, code: DurationParseErrorCode, reason: string, position?: number) {
+		super(`Invalid duration "${input}": ${reason}`);
+		this.name = "DurationParseError";
+		this.input = input;
+		this.code = code;
+		this.position = position;
+	}
+}
+
+export interface ParseDurationOptions {
+	/**
+	 * The unit of a string that is just a number, e.g. "90".
+	 *
+	 * @default "s"
+	 */
+	defaultUnit?: DurationUnit;
+
+	/**
+	 * If false, negative durations are rejected.
+	 *
+	 * @default true
+	 */
+	allowNegative?: boolean;
+}
+
+const unitAliases: Record<string, number> = {
+	ms: 1,
+	msec: 1,
+	msecs: 1,
+	millisecond: 1,
+	milliseconds: 1,
+	s: unitMs.s,
+	sec: unitMs.s,
+	secs: unitMs.s,
+	second: unitMs.s,
+	seconds: unitMs.s,
+	m: unitMs.m,
+	min: unitMs.m,
+	mins: unitMs.m,
+	minute: unitMs.m,
+	minutes: unitMs.m,
+	h: unitMs.h,
+	hr: unitMs.h,
+	hrs: unitMs.h,
+	hour: unitMs.h,
+	hours: unitMs.h,
+	d: unitMs.d,
+	day: unitMs.d,
+	days: unitMs.d,
+	w: 7 * unitMs.d,
+	wk: 7 * unitMs.d,
+	wks: 7 * unitMs.d,
+	week: 7 * unitMs.d,
+	weeks: 7 * unitMs.d,
+};
+
+const isoNumber = "(\\d+(?:[.,]\\d+)?)";
+const isoDuration = new RegExp(
+	`^P(?!$)(?:${isoNumber}W)?(?:${isoNumber}D)?(?:T(?!$)(?:${isoNumber}H)?(?:${isoNumber}M)?(?:${isoNumber}S)?)?$`,
+	"i",
+);
+
+function parseUnsignedDuration(input: string, body: string, offset: number, defaultUnit: DurationUnit) {
+	if (/^(\d+(\.\d*)?|\.\d+)$/.test(body)) {
+		// Just a number
+		return Number(body) * unitMs[defaultUnit];
+	}
+
+	if (/^P/i.test(body)) {
+		// ISO 8601, e.g. PT1H30M or P1DT12H
+		const match = body.match(isoDuration);
+		if (!match) {
+			const reason = /^P[^T]*[YM]/i.test(body)
+				? "ISO 8601 years and months are not supported, since their length varies."
+				: "Not a valid ISO 8601 duration.";
+			throw new DurationParseError(input, "invalid-format", reason, offset);
+		}
+		const values = match.slice(1).map(v => Number((v ?? "0").replace(",", ".")));
+		const [weeks, days, hours, minutes, seconds] = values;
+		return (7 * weeks + days) * unitMs.d + hours * unitMs.h + minutes * unitMs.m + seconds * unitMs.s;
+	}
+
+	if (body.includes(":")) {
+		// In the format of [[d:]h:]mm:ss[.fff], e.g. 8:22, 1:02:53.5, :56, or 20:
+		const parts = body.split(/\s*:\s*/);
+		const isValid =
+			parts.length <= 4 &&
+			parts.some(p => p !== "") &&
+			parts.every((p, i) => (i === parts.length - 1 ? /^(\d*(\.\d+)?)$/ : /^\d*$/).test(p));
+		if (!isValid) {
+			throw new DurationParseError(input, "invalid-format", "Expected [[d:]h:]mm:ss.", offset);
+		}
+		const partUnits = (["d", "h", "m", "s"] as DurationUnit[]).slice(4 - parts.length);
+		return parts.reduce((total, part, i) => total + Number(part || 0) * unitMs[partUnits[i]], 0);
+	}
+
+	// Amounts with units, e.g. "1h 30m", "1.5 hours", or "2 minutes, and 3 seconds"
+	const token = /\s*(?:(?:,|\band\b)\s*)*(\d*\.?\d+)\s*([a-z]+)\.?\s*/iy;
+	const seenUnits = new Set<number>();
+	let total = 0;
+	while (token.lastIndex < body.length) {
+		const position = token.lastIndex;
+		const match = token.exec(body);
+		if (!match) {
+			throw new DurationParseError(
+				input,
+				"invalid-format",
+				"Expected an amount followed by a unit.",
+				offset + position,
+			);
+		}
+		const unit = unitAliases[match[2].toLowerCase()];
+		if (unit === undefined) {
+			throw new DurationParseError(
+				input,
+				"unknown-unit",
+				`"${match[2]}" is not a unit of time.`,
+				offset + position,
+			);
+		}
+		if (seenUnits.has(unit)) {
+			throw new DurationParseError(
+				input,
+				"duplicate-unit",
+				`"${match[2]}" is given more than once.`,
+				offset + position,
+			);
+		}
+		seenUnits.add(unit);
+		total += Number(match[1]) * unit;
+	}
+	return total;
+}
+
+/**
+ * Returns the number of milliseconds represented by the given string,
+ * rounded to the nearest millisecond. Any of these formats may be
+ * preceded by a minus sign:
+ * - A number, in seconds unless `defaultUnit` says otherwise: "90", "1.5"
+ * - Colon-separated: "1:02:03", "1 : 02", "2:00:00:00", "0:05.250"
+ * - Amounts with units: "1.5h", "1h 30m", "2 days, 3 hours and 15 minutes", "250ms"
+ * - ISO 8601, without years or months: "PT1H30M", "P1DT12H", "PT0.5S"
+ * @param str
+ * @param options
+ * @throws {DurationParseError} If the string cannot be parsed
+ */
+export function parseDuration(str: string, options: ParseDurationOptions = {}): number {
+	const { defaultUnit = "s", allowNegative = true } = options;
+	const leadingSpace = str.length - str.trimStart().length;
+	const trimmed = str.trim();
+	if (!trimmed) {
+		throw new DurationParseError(str, "empty", "The string is empty.");
+	}
+
+	const sign = trimmed.match(/^([+-])\s*/);
+	const isNegative = sign?.[1] === "-";
+	const offset = leadingSpace + (sign?.[0].length ?? 0);
+	const body = trimmed.slice(sign?.[0].length ?? 0);
+	if (!body) {
+		throw new DurationParseError(str, "invalid-format", "Expected a duration after the sign.", offset);
+	}
+	const ms = Math.round(parseUnsignedDuration(str, body, offset, defaultUnit));
+	if (isNegative && !allowNegative && ms !== 0) {
+		throw new DurationParseError(str, "negative", "Negative durations are not allowed.", leadingSpace);
+	}
+	return isNegative && ms !== 0 ? -ms : ms;
+}
+
+/**
+ * Convert a duration given in milliseconds or as a string to milliseconds.
+ * @param duration
+ * @throws {DurationParseError} If the duration is a string that cannot be parsed
+ */
+export function durationToMs(duration: Duration): number {
+	return typeof duration === "string" ? parseDuration(duration) : duration;
+}
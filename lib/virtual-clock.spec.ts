@@ -0,0 +1,59 @@
+import { VirtualClock } from "./virtual-clock";
+
+describe("VirtualClock", () => {
+	it("only moves when advanced", () => {
+		const clock = new VirtualClock({ startDate: new Date("2024-01-01T00:00:00Z") });
+		expect(clock.now()).toBe(0);
+		clock.advanceBy(1500);
+		expect(clock.now()).toBe(1500);
+		expect(clock.performance.now()).toBe(1500);
+		expect(new clock.Date().toISOString()).toBe("2024-01-01T00:00:01.500Z");
+		expect(clock.Date.now()).toBe(clock.wallNow());
+	});
+
+	it("runs timeouts and intervals in order at the time they are due", () => {
+		const clock = new VirtualClock();
+		const calls: string[] = [];
+		clock.setTimeout(() => calls.push(`timeout@${clock.now()}`), 250);
+		const interval = clock.setInterval(() => calls.push(`interval@${clock.now()}`), 100);
+		clock.advanceBy(300);
+		clock.clearInterval(interval);
+		clock.advanceBy(1000);
+		expect(calls).toEqual(["interval@100", "interval@200", "timeout@250", "interval@300"]);
+		expect(clock.getPendingCount()).toBe(0);
+	});
+
+	it("does not run cleared timeouts", () => {
+		const clock = new VirtualClock();
+		const callback = jest.fn();
+		const id = clock.setTimeout(callback, 10);
+		clock.clearTimeout(id);
+		clock.advanceBy(100);
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("runs animation frames on frame boundaries", () => {
+		const clock = new VirtualClock({ frameMs: 16 });
+		const times: number[] = [];
+		clock.requestAnimationFrame(time => times.push(time));
+		clock.nextFrame();
+		expect(times).toEqual([16]);
+	});
+
+	it("changes the wall clock without moving performance.now", () => {
+		const clock = new VirtualClock();
+		clock.setSystemTime(60000);
+		expect(clock.wallNow()).toBe(60000);
+		expect(clock.now()).toBe(0);
+	});
+
+	it("coalesces interval executions while sleeping", () => {
+		const clock = new VirtualClock();
+		const callback = jest.fn();
+		clock.setInterval(callback, 100);
+		clock.sleep(1000);
+		expect(callback).toHaveBeenCalledTimes(1);
+		clock.advanceBy(100);
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,249 @@
+import type { TimerShims } from "./super-timer.js";
+
+type ScheduledTaskKind = "timeout" | "interval" | "frame";
+
+interface ScheduledTask {
+	id: number;
+	kind: ScheduledTaskKind;
+	dueAt: number;
+	intervalMs: number;
+	callback: (...args: any[]) => void;
+	args: any[];
+
+	// Used to break ties between tasks that are due at the same time,
+	// so tasks run in the order they were scheduled.
+	order: number;
+}
+
+export interface VirtualClockOptions {
+	/**
+	 * The wall-clock date that corresponds to the moment the clock
+	 * was created. Used by the fake `Date` shim.
+	 *
+	 * @default new Date(0)
+	 */
+	startDate: Date | number;
+
+	/**
+	 * The length of a single animation frame, in milliseconds.
+	 *
+	 * @default 16
+	 */
+	frameMs: number;
+}
+
+/**
+ * A deterministic, manually-driven implementation of TimerShims. Time only
+ * moves forward when `advanceBy`, `nextFrame`, or `runAllDue` is called,
+ * which makes it possible to test timers with exact timing and without
+ * any real waiting.
+ *
+ * @example
+ * const clock = new VirtualClock();
+ * const timer = new SuperTimer({ shims: clock });
+ * timer.start();
+ * clock.advanceBy(1000);
+ * timer.getElapsedMs(); // 1000
+ */
+export class VirtualClock implements TimerShims {
+	private nowMs: number = 0;
+	private wallOffsetMs: number;
+	private frameMs: number;
+	private nextId: number = 1;
+	private nextOrder: number = 1;
+	private tasks: Map<number, ScheduledTask> = new Map();
+
+	public readonly performance: TimerShims["performance"];
+	public readonly Date: TimerShims["Date"];
+
+	constructor(options: Partial<VirtualClockOptions> = {}) {
+		const startDate = options.startDate ?? 0;
+		this.wallOffsetMs = typeof startDate === "number" ? startDate : startDate.getTime();
+		this.frameMs = options.frameMs ?? 16;
+
+		const clock = this;
+		this.performance = { now: () => this.nowMs } as unknown as TimerShims["performance"];
+		this.Date = class VirtualDate extends Date {
+			constructor(...args: any[]) {
+				if (args.length === 0) {
+					super(clock.wallNow());
+				} else {
+					super(...(args as []));
+				}
+			}
+			public static now() {
+				return clock.wallNow();
+			}
+		} as unknown as TimerShims["Date"];
+	}
+
+	public setTimeout = ((callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+		return this.schedule("timeout", callback, this.nowMs + Math.max(0, ms ?? 0), 0, args);
+	}) as unknown as TimerShims["setTimeout"];
+
+	public clearTimeout = ((id: number | undefined) => {
+		this.cancel(id);
+	}) as unknown as TimerShims["clearTimeout"];
+
+	public setInterval = ((callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+		// Like real timers, intervals shorter than 1ms are clamped so they can't starve the clock.
+		const intervalMs = Math.max(1, ms ?? 0);
+		return this.schedule("interval", callback, this.nowMs + intervalMs, intervalMs, args);
+	}) as unknown as TimerShims["setInterval"];
+
+	public clearInterval = ((id: number | undefined) => {
+		this.cancel(id);
+	}) as unknown as TimerShims["clearInterval"];
+
+	public requestAnimationFrame = ((callback: FrameRequestCallback) => {
+		return this.schedule("frame", callback, this.nextFrameTime(), 0, []);
+	}) as unknown as TimerShims["requestAnimationFrame"];
+
+	public cancelAnimationFrame = ((id: number) => {
+		this.cancel(id);
+	}) as unknown as TimerShims["cancelAnimationFrame"];
+
+	/**
+	 * The current virtual time, as would be reported by `performance.now()`.
+	 */
+	public now(): number {
+		return this.nowMs;
+	}
+
+	/**
+	 * The current virtual wall-clock time, as would be reported by `Date.now()`.
+	 */
+	public wallNow(): number {
+		return this.wallOffsetMs + this.nowMs;
+	}
+
+	/**
+	 * Change the virtual wall-clock time without moving `performance.now()`
+	 * or running any scheduled tasks, as happens when the system clock is
+	 * corrected.
+	 * @param date
+	 */
+	public setSystemTime(date: Date | number): void {
+		const wallMs = typeof date === "number" ? date : date.getTime();
+		this.wallOffsetMs = wallMs - this.nowMs;
+	}
+
+	/**
+	 * The number of timeouts, intervals, and animation frames still scheduled.
+	 */
+	public getPendingCount(): number {
+		return this.tasks.size;
+	}
+
+	/**
+	 * Move the clock forward by the given number of milliseconds. Every
+	 * timeout, interval, and animation frame that becomes due along the
+	 * way is executed in order, with the clock set to the time at which
+	 * it was due.
+	 * @param ms
+	 */
+	public advanceBy(ms: number): void {
+		if (ms < 0) {
+			throw new Error("VirtualClock cannot move backwards.");
+		}
+		const targetMs = this.nowMs + ms;
+		let task = this.nextDueTask(targetMs);
+		while (task) {
+			this.nowMs = Math.max(this.nowMs, task.dueAt);
+			this.runTask(task);
+			task = this.nextDueTask(targetMs);
+		}
+		this.nowMs = targetMs;
+	}
+
+	/**
+	 * Move the clock forward by the given number of milliseconds without
+	 * running anything along the way, as happens when the machine sleeps
+	 * or a background tab is throttled. Everything that became due runs
+	 * once at the end, so repeated interval executions are coalesced into
+	 * one and the interval resumes its schedule from the current time.
+	 * @param ms
+	 */
+	public sleep(ms: number): void {
+		if (ms < 0) {
+			throw new Error("VirtualClock cannot move backwards.");
+		}
+		this.nowMs += ms;
+		for (const task of this.tasks.values()) {
+			task.dueAt = Math.max(task.dueAt, this.nowMs);
+		}
+		this.runAllDue();
+	}
+
+	/**
+	 * Move the clock forward to the given absolute virtual time.
+	 * @param ms
+	 */
+	public advanceTo(ms: number): void {
+		this.advanceBy(ms - this.nowMs);
+	}
+
+	/**
+	 * Execute everything that is due at the current time without moving
+	 * the clock, including tasks scheduled with a 0ms delay by other tasks.
+	 */
+	public runAllDue(): void {
+		this.advanceBy(0);
+	}
+
+	/**
+	 * Move the clock forward to the next animation frame boundary and
+	 * run everything that is due up to and including that frame.
+	 */
+	public nextFrame(): void {
+		this.advanceTo(this.nextFrameTime());
+	}
+
+	private nextFrameTime() {
+		return (Math.floor(this.nowMs / this.frameMs) + 1) * this.frameMs;
+	}
+
+	private schedule(
+		kind: ScheduledTaskKind,
+		callback: (...args: any[]) => void,
+		dueAt: number,
+		intervalMs: number,
+		args: any[],
+	) {
+		const id = this.nextId++;
+		this.tasks.set(id, { id, kind, dueAt, intervalMs, callback, args, order: this.nextOrder++ });
+		return id;
+	}
+
+	private cancel(id: number | undefined) {
+		if (id !== undefined) {
+			this.tasks.delete(id);
+		}
+	}
+
+	private nextDueTask(targetMs: number) {
+		let next: ScheduledTask | undefined;
+		for (const task of this.tasks.values()) {
+			if (task.dueAt > targetMs) continue;
+			if (!next || task.dueAt < next.dueAt || (task.dueAt === next.dueAt && task.order < next.order)) {
+				next = task;
+			}
+		}
+		return next;
+	}
+
+	private runTask(task: ScheduledTask) {
+		if (task.kind === "interval") {
+			task.dueAt += task.intervalMs;
+			task.order = this.nextOrder++;
+		} else {
+			this.tasks.delete(task.id);
+		}
+
+		if (task.kind === "frame") {
+			task.callback(this.nowMs);
+		} else {
+			task.callback(...task.args);
+		}
+	}
+}